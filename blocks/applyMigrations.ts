@@ -0,0 +1,287 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import crypto from "crypto";
+import { withRetry } from "../utils/retry.ts";
+import { parseTableName, sanitizeTableName } from "../utils/identifiers.ts";
+import { splitScript, substituteVariables } from "../utils/script.ts";
+
+interface Migration {
+  version: string;
+  description?: string;
+  script: string;
+}
+
+/**
+ * Checksum of a migration script, ignoring differences in line endings
+ */
+function getChecksum(script: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(script.replace(/\r\n/g, "\n"))
+    .digest("hex");
+}
+
+export const applyMigrations: AppBlock = {
+  name: "Apply Migrations",
+  description:
+    "Applies pending versioned migration scripts in order and records them in a history table",
+  category: "Schema",
+
+  inputs: {
+    default: {
+      config: {
+        migrations: {
+          name: "Migrations",
+          description:
+            "Ordered list of migrations; each script may contain GO separators and $(Variable) references",
+          type: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                version: {
+                  type: "string",
+                  description: "Unique version of the migration (e.g. '001')",
+                },
+                description: {
+                  type: "string",
+                  description: "What the migration does",
+                },
+                script: {
+                  type: "string",
+                  description: "SQL script of the migration",
+                },
+              },
+              required: ["version", "script"],
+            },
+          },
+          required: true,
+        },
+        variables: {
+          name: "Variables",
+          description:
+            "Map of sqlcmd variable names to values substituted for $(Name) in the scripts",
+          type: {
+            type: "object",
+            additionalProperties: true,
+          },
+          required: false,
+        },
+        historyTable: {
+          name: "History Table",
+          description:
+            "Table recording applied migrations, created if it does not exist",
+          type: "string",
+          required: false,
+          default: "dbo.__flows_migrations",
+        },
+        lockTimeout: {
+          name: "Lock Timeout",
+          description:
+            "Seconds to wait for another run of this block to finish before failing",
+          type: "number",
+          required: false,
+          default: 30,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const { migrations, variables, historyTable, lockTimeout, database } =
+          input.event.inputConfig;
+        const migrationList = migrations as Migration[];
+        const tableName = (historyTable as string) || "dbo.__flows_migrations";
+        const safeTableName = sanitizeTableName(tableName);
+        const { schema, table } = parseTableName(tableName);
+
+        const seen = new Set<string>();
+        for (const migration of migrationList) {
+          if (!migration.version) {
+            throw new Error("Every migration requires a version");
+          }
+          if (seen.has(migration.version)) {
+            throw new Error(
+              `Duplicate migration version: ${migration.version}`,
+            );
+          }
+          seen.add(migration.version);
+        }
+
+        // A run either applies all pending migrations or none, so it can be repeated
+        const { result: applied, attempts } = await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            // Everything runs in one transaction, which also owns the applock
+            const transaction = new sql.Transaction(pool);
+            await transaction.begin();
+
+            const applied: string[] = [];
+            let currentVersion: string | null = null;
+
+            try {
+              const lockResult = await new sql.Request(transaction)
+                .input(
+                  "resource",
+                  sql.NVarChar(255),
+                  `flows_migrations:${schema}.${table}`,
+                )
+                .input(
+                  "timeout",
+                  sql.Int,
+                  ((lockTimeout as number) ?? 30) * 1000,
+                )
+                .query(
+                  `DECLARE @result INT;
+              EXEC @result = sp_getapplock
+                @Resource = @resource,
+                @LockMode = 'Exclusive',
+                @LockOwner = 'Transaction',
+                @LockTimeout = @timeout;
+              SELECT @result AS result`,
+                );
+              // Negative results mean timeout, cancellation or deadlock
+              if (lockResult.recordset[0].result < 0) {
+                throw new Error(
+                  "Another migration run holds the lock on the history table",
+                );
+              }
+
+              await new sql.Request(transaction)
+                .input("tableName", sql.NVarChar, safeTableName)
+                .query(
+                  `IF OBJECT_ID(@tableName, 'U') IS NULL
+                CREATE TABLE ${safeTableName} (
+                  version NVARCHAR(255) NOT NULL PRIMARY KEY,
+                  description NVARCHAR(MAX) NULL,
+                  checksum CHAR(64) NOT NULL,
+                  applied_at DATETIME2 NOT NULL DEFAULT SYSUTCDATETIME(),
+                  execution_ms INT NOT NULL
+                )`,
+                );
+
+              const historyResult = await new sql.Request(transaction).query(
+                `SELECT version, checksum FROM ${safeTableName}`,
+              );
+              const history = new Map<string, string>(
+                historyResult.recordset.map((row: any) => [
+                  row.version,
+                  row.checksum,
+                ]),
+              );
+
+              // Refuse to run anything if an applied migration was edited
+              for (const migration of migrationList) {
+                const checksum = history.get(migration.version);
+                if (checksum && checksum !== getChecksum(migration.script)) {
+                  throw new Error(
+                    `Migration ${migration.version} was changed after it was applied (checksum mismatch)`,
+                  );
+                }
+              }
+
+              for (const migration of migrationList) {
+                if (history.has(migration.version)) continue;
+                currentVersion = migration.version;
+
+                const startedAt = Date.now();
+                for (const batch of splitScript(migration.script)) {
+                  const batchSql = substituteVariables(
+                    batch.sql,
+                    variables as Record<string, any> | undefined,
+                  );
+                  for (let run = 0; run < batch.repeat; run++) {
+                    await new sql.Request(transaction).batch(batchSql);
+                  }
+                }
+
+                await new sql.Request(transaction)
+                  .input("version", sql.NVarChar(255), migration.version)
+                  .input(
+                    "description",
+                    sql.NVarChar(sql.MAX),
+                    migration.description || null,
+                  )
+                  .input(
+                    "checksum",
+                    sql.Char(64),
+                    getChecksum(migration.script),
+                  )
+                  .input("executionMs", sql.Int, Date.now() - startedAt)
+                  .query(
+                    `INSERT INTO ${safeTableName} (version, description, checksum, execution_ms)
+                VALUES (@version, @description, @checksum, @executionMs)`,
+                  );
+
+                applied.push(migration.version);
+              }
+
+              await transaction.commit();
+            } catch (error: any) {
+              await transaction.rollback().catch(() => {});
+
+              if (currentVersion === null) {
+                throw error;
+              }
+              throw new Error(
+                `Migration ${currentVersion} failed, all migrations of this run rolled back: ${error.message}`,
+                { cause: error },
+              );
+            }
+
+            return applied;
+          },
+        );
+
+        await events.emit({
+          applied,
+          alreadyApplied: migrationList
+            .map((migration) => migration.version)
+            .filter((version) => !applied.includes(version)),
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Migration Result",
+      description: "Versions applied by this run",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          applied: {
+            type: "array",
+            description: "Versions applied by this run, in order",
+            items: {
+              type: "string",
+            },
+          },
+          alreadyApplied: {
+            type: "array",
+            description: "Versions that had been applied by an earlier run",
+            items: {
+              type: "string",
+            },
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: ["applied", "alreadyApplied"],
+      },
+    },
+  },
+};
@@ -1,27 +1,14 @@
 import { AppBlock, events } from "@slflows/sdk/v1";
-import { getPool } from "../utils/pool.ts";
-
-/**
- * Sanitizes a SQL identifier (table or schema name) to prevent SQL injection.
- * Removes any existing brackets and wraps in square brackets.
- */
-function sanitizeIdentifier(name: string): string {
-  // Remove existing brackets and escape any remaining brackets within the name
-  const cleaned = name.replace(/[\[\]]/g, "");
-  return `[${cleaned}]`;
-}
-
-/**
- * Parses and sanitizes a table name that may include schema (e.g., 'dbo.users' or 'users')
- */
-function sanitizeTableName(tableName: string): string {
-  const parts = tableName.split(".");
-  return parts.map(sanitizeIdentifier).join(".");
-}
+import { withRetry } from "../utils/retry.ts";
+import { parseTableName, sanitizeTableName } from "../utils/identifiers.ts";
+import { getTableColumns } from "../utils/catalog.ts";
+import { bulkLoad } from "../utils/bulk.ts";
+import { handleBlockError, sqlErrorSchema } from "../utils/errors.ts";
 
 export const bulkInsert: AppBlock = {
   name: "Bulk Insert",
-  description: "Efficiently inserts multiple rows using a parameterized query",
+  description:
+    "Efficiently inserts multiple rows using a parameterized query or the bulk-copy protocol",
   category: "Bulk Operations",
 
   inputs: {
@@ -58,72 +45,245 @@ export const bulkInsert: AppBlock = {
           },
           required: true,
         },
+        mode: {
+          name: "Insert Mode",
+          description:
+            "'insert' sends a single parameterized INSERT (limited to 2100 values), 'bulk' uses the bulk-copy protocol in chunks of any size",
+          type: {
+            type: "string",
+            enum: ["insert", "bulk"],
+          },
+          required: false,
+          default: "insert",
+        },
+        chunkSize: {
+          name: "Chunk Size",
+          description: "Number of rows sent per bulk-copy chunk (bulk mode)",
+          type: "number",
+          required: false,
+          default: 5000,
+        },
+        tableLock: {
+          name: "Table Lock",
+          description:
+            "Take a bulk update lock on the table for the duration of each chunk (bulk mode)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        keepNulls: {
+          name: "Keep Nulls",
+          description:
+            "Insert NULL values as-is instead of applying column defaults (bulk mode)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        checkConstraints: {
+          name: "Check Constraints",
+          description:
+            "Enforce CHECK and FOREIGN KEY constraints while loading (bulk mode)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        fireTriggers: {
+          name: "Fire Triggers",
+          description: "Run INSERT triggers on the table (bulk mode)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry after deadlocks, throttling or dropped connections (bulk mode only retries loads that fit in one chunk)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        errorHandling: {
+          name: "Error Handling",
+          description:
+            "'throw' fails the block when the operation fails, 'emit' sends the error details to the Error output instead",
+          type: {
+            type: "string",
+            enum: ["throw", "emit"],
+          },
+          required: false,
+          default: "throw",
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
       },
       async onEvent(input) {
-        const { table, columns, rows } = input.event.inputConfig;
-        const pool = await getPool(input.app.config);
+        const {
+          table,
+          columns,
+          rows,
+          mode,
+          chunkSize,
+          tableLock,
+          keepNulls,
+          checkConstraints,
+          fireTriggers,
+          retryOnTransientErrors,
+          errorHandling,
+          database,
+        } = input.event.inputConfig;
 
-        const columnsArray = columns as string[];
-        const rowsData = rows as any[][];
+        try {
+          const columnsArray = columns as string[];
+          const rowsData = rows as any[][];
 
-        if (rowsData.length === 0) {
-          await events.emit({
-            rowCount: 0,
-            table: table as string,
-          });
-          return;
-        }
+          const insertMode = (mode as string) || "insert";
 
-        // Validate row lengths match column count
-        const columnCount = columnsArray.length;
-        for (let i = 0; i < rowsData.length; i++) {
-          if (rowsData[i].length !== columnCount) {
-            throw new Error(
-              `Row ${i} has ${rowsData[i].length} values, expected ${columnCount} (column count)`,
-            );
+          if (rowsData.length === 0) {
+            await events.emit({
+              rowCount: 0,
+              table: table as string,
+              mode: insertMode,
+              chunks: [],
+            });
+            return;
           }
-        }
 
-        const request = pool.request();
-
-        // Build the INSERT query with multiple value sets using parameterized queries
-        // Use square brackets for column quoting (MSSQL syntax)
-        const columnsList = columnsArray.map((col) => `[${col}]`).join(", ");
-
-        // Create placeholder sets for each row
-        const valuePlaceholders: string[] = [];
-        let paramIndex = 1;
-
-        for (const row of rowsData) {
-          const rowPlaceholders: string[] = [];
-          for (const value of row) {
-            rowPlaceholders.push(`@p${paramIndex}`);
-            // Handle BigInt values
-            if (typeof value === "bigint") {
-              request.input(`p${paramIndex}`, value.toString());
-            } else {
-              request.input(`p${paramIndex}`, value);
+          // Validate row lengths match column count
+          const columnCount = columnsArray.length;
+          for (let i = 0; i < rowsData.length; i++) {
+            if (rowsData[i].length !== columnCount) {
+              throw new Error(
+                `Row ${i} has ${rowsData[i].length} values, expected ${columnCount} (column count)`,
+              );
             }
-            paramIndex++;
           }
-          valuePlaceholders.push(`(${rowPlaceholders.join(", ")})`);
-        }
 
-        const safeTableName = sanitizeTableName(table as string);
-        const insertQuery = `INSERT INTO ${safeTableName} (${columnsList}) VALUES ${valuePlaceholders.join(", ")}`;
+          const effectiveChunkSize = (chunkSize as number) || 5000;
+
+          const { result, attempts } = await withRetry(
+            input.app.config,
+            {
+              database: database as string | undefined,
+            },
+            async (pool) => {
+              if (insertMode === "bulk") {
+                const { schema, table: tableName } = parseTableName(
+                  table as string,
+                );
+                const tableColumns = await getTableColumns(
+                  pool,
+                  schema,
+                  tableName,
+                );
+                if (tableColumns.length === 0) {
+                  throw new Error(`Table ${schema}.${tableName} not found`);
+                }
+
+                try {
+                  return await bulkLoad(
+                    pool,
+                    sanitizeTableName(table as string),
+                    tableColumns,
+                    columnsArray,
+                    rowsData,
+                    {
+                      chunkSize: effectiveChunkSize,
+                      tableLock: tableLock as boolean,
+                      keepNulls: keepNulls as boolean,
+                      checkConstraints: checkConstraints as boolean,
+                      fireTriggers: fireTriggers as boolean,
+                    },
+                  );
+                } catch (error: any) {
+                  // Earlier chunks stay committed, so report how far the load got
+                  if (typeof error.loadedRowCount !== "number") {
+                    throw error;
+                  }
+                  throw Object.assign(
+                    new Error(
+                      `Bulk insert failed; ${error.loadedRowCount} rows in ${error.loadedChunkCount} chunks were already committed. ${error.message}`,
+                      { cause: error },
+                    ),
+                    {
+                      loadedRowCount: error.loadedRowCount,
+                      loadedChunkCount: error.loadedChunkCount,
+                    },
+                  );
+                }
+              }
+
+              const request = pool.request();
+
+              // Build the INSERT query with multiple value sets using parameterized queries
+              // Use square brackets for column quoting (MSSQL syntax)
+              const columnsList = columnsArray
+                .map((col) => `[${col}]`)
+                .join(", ");
 
-        const result = await request.query(insertQuery);
+              // Create placeholder sets for each row
+              const valuePlaceholders: string[] = [];
+              let paramIndex = 1;
 
-        // Sum all affected rows
-        const totalRowsAffected = result.rowsAffected.reduce(
-          (sum, count) => sum + count,
-          0,
-        );
+              for (const row of rowsData) {
+                const rowPlaceholders: string[] = [];
+                for (const value of row) {
+                  rowPlaceholders.push(`@p${paramIndex}`);
+                  // Handle BigInt values
+                  if (typeof value === "bigint") {
+                    request.input(`p${paramIndex}`, value.toString());
+                  } else {
+                    request.input(`p${paramIndex}`, value);
+                  }
+                  paramIndex++;
+                }
+                valuePlaceholders.push(`(${rowPlaceholders.join(", ")})`);
+              }
 
-        await events.emit({
-          rowCount: totalRowsAffected || rowsData.length,
-          table: table as string,
-        });
+              const safeTableName = sanitizeTableName(table as string);
+              const insertQuery = `INSERT INTO ${safeTableName} (${columnsList}) VALUES ${valuePlaceholders.join(", ")}`;
+
+              const result = await request.query(insertQuery);
+
+              // Sum all affected rows
+              const totalRowsAffected = result.rowsAffected.reduce(
+                (sum, count) => sum + count,
+                0,
+              );
+
+              return {
+                rowCount: totalRowsAffected || rowsData.length,
+                chunks: [
+                  {
+                    chunkNumber: 0,
+                    rowCount: totalRowsAffected || rowsData.length,
+                  },
+                ],
+              };
+            },
+            // Chunks are committed one by one, so only a single-chunk load can be repeated
+            {
+              enabled:
+                Boolean(retryOnTransientErrors) &&
+                (insertMode !== "bulk" ||
+                  rowsData.length <= effectiveChunkSize),
+            },
+          );
+
+          await events.emit({
+            rowCount: result.rowCount,
+            table: table as string,
+            mode: insertMode,
+            chunks: result.chunks,
+            attempts,
+          });
+        } catch (error) {
+          await handleBlockError(error, errorHandling);
+        }
       },
     },
   },
@@ -145,9 +305,42 @@ export const bulkInsert: AppBlock = {
             type: "string",
             description: "The table name where rows were inserted",
           },
+          mode: {
+            type: "string",
+            description: "Insert mode that was used (insert or bulk)",
+          },
+          chunks: {
+            type: "array",
+            description: "Progress of each chunk that was sent to the server",
+            items: {
+              type: "object",
+              properties: {
+                chunkNumber: {
+                  type: "number",
+                  description: "Sequential chunk number starting from 0",
+                },
+                rowCount: {
+                  type: "number",
+                  description: "Number of rows inserted by this chunk",
+                },
+              },
+            },
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
         },
         required: ["rowCount", "table"],
       },
     },
+    error: {
+      name: "Error",
+      description:
+        "Emitted with the error details when the operation fails and Error Handling is 'emit'",
+      possiblePrimaryParents: ["default"],
+      type: sqlErrorSchema,
+    },
   },
 };
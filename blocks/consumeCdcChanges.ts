@@ -0,0 +1,336 @@
+import { AppBlock, events, kv } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { sanitizeIdentifier } from "../utils/identifiers.ts";
+import { streamRows } from "../utils/stream.ts";
+import { getSerializationOptions, serializeValue } from "../utils/serialize.ts";
+
+const LSN_KEY = "lastLsn";
+
+// __$operation codes returned by fn_cdc_get_all_changes_* and fn_cdc_get_net_changes_*
+const allChangesOperations: Record<number, string> = {
+  1: "delete",
+  2: "insert",
+  3: "update_before",
+  4: "update_after",
+};
+
+const netChangesOperations: Record<number, string> = {
+  1: "delete",
+  2: "insert",
+  4: "update",
+  5: "merge",
+};
+
+const toHex = (lsn: Buffer) => `0x${lsn.toString("hex").toUpperCase()}`;
+const fromHex = (lsn: string) => Buffer.from(lsn.replace(/^0x/i, ""), "hex");
+
+/**
+ * Emits all changes recorded for the configured capture instance since the
+ * last stored LSN, then advances the stored LSN.
+ */
+async function consumeChanges(appConfig: any, blockConfig: any): Promise<void> {
+  const captureInstance = blockConfig.captureInstance as string;
+  const mode = (blockConfig.mode as string) || "all";
+  const batchSize = (blockConfig.batchSize as number) || 100;
+
+  if (!/^\w+$/.test(captureInstance)) {
+    throw new Error(`Invalid capture instance name: ${captureInstance}`);
+  }
+
+  const serialization = getSerializationOptions(appConfig);
+
+  // Events cannot be taken back, so only retry until the first one is emitted
+  let emitted = false;
+
+  await withRetry(
+    appConfig,
+    {
+      database: blockConfig.database as string | undefined,
+    },
+    async (pool, attempt) => {
+      const boundsResult = await pool
+        .request()
+        .input("captureInstance", sql.NVarChar, captureInstance)
+        .query(
+          `SELECT
+            sys.fn_cdc_get_min_lsn(@captureInstance) AS min_lsn,
+            sys.fn_cdc_get_max_lsn() AS max_lsn`,
+        );
+      const { min_lsn: minLsn, max_lsn: maxLsn } = boundsResult.recordset[0];
+
+      // fn_cdc_get_min_lsn returns all zeros for an unknown capture instance
+      if (!minLsn || !maxLsn || /^0x0+$/.test(toHex(minLsn))) {
+        throw new Error(
+          `Capture instance ${captureInstance} does not exist or CDC is not enabled`,
+        );
+      }
+
+      const stored = await kv.block.get(LSN_KEY);
+      const lastLsn = stored?.value as string | undefined;
+
+      let fromLsn: Buffer = minLsn;
+      if (lastLsn !== undefined) {
+        const incrementResult = await pool
+          .request()
+          .input("lastLsn", sql.VarBinary(10), fromHex(lastLsn))
+          .query("SELECT sys.fn_cdc_increment_lsn(@lastLsn) AS from_lsn");
+        const nextLsn: Buffer = incrementResult.recordset[0].from_lsn;
+
+        // LSNs are fixed-width binary(10) values, so their hex forms compare in
+        // order. Cleanup that only removed consumed changes leaves the next LSN
+        // at or after the minimum; below it, unread changes were purged.
+        if (toHex(nextLsn) < toHex(minLsn)) {
+          emitted = true;
+          await events.emit(
+            {
+              captureInstance,
+              lastLsn,
+              minLsn: toHex(minLsn),
+            },
+            { outputKey: "resyncRequired" },
+          );
+        } else {
+          fromLsn = nextLsn;
+        }
+      }
+
+      // Nothing new since the last run
+      if (toHex(fromLsn) > toHex(maxLsn)) {
+        return;
+      }
+
+      const functionName = sanitizeIdentifier(
+        `fn_cdc_get_${mode === "net" ? "net" : "all"}_changes_${captureInstance}`,
+      );
+      const rowFilter = mode === "net" ? "all" : "all update old";
+      const operations =
+        mode === "net" ? netChangesOperations : allChangesOperations;
+
+      const request = pool.request();
+      request.input("fromLsn", sql.VarBinary(10), fromLsn);
+      request.input("toLsn", sql.VarBinary(10), maxLsn);
+      request.input("rowFilter", sql.NVarChar, rowFilter);
+
+      let batchNumber = 0;
+      let currentBatch: any[] = [];
+
+      const emitBatch = async (hasMore: boolean) => {
+        emitted = true;
+        await events.emit({
+          captureInstance,
+          batchNumber,
+          changes: currentBatch,
+          changeCount: currentBatch.length,
+          hasMore,
+          attempts: attempt,
+        });
+        batchNumber++;
+        currentBatch = [];
+      };
+
+      let columns: sql.IColumnMetadata | undefined;
+
+      for await (const row of streamRows(
+        request,
+        `SELECT * FROM cdc.${functionName}(@fromLsn, @toLsn, @rowFilter)`,
+        {
+          onRecordset: (recordsetColumns) => {
+            columns = recordsetColumns;
+          },
+        },
+      )) {
+        if (row === undefined) break;
+
+        const data: Record<string, any> = {};
+        for (const [key, value] of Object.entries(row)) {
+          if (key.startsWith("__$")) continue;
+          data[key] = serializeValue(value, columns?.[key], serialization);
+        }
+
+        currentBatch.push({
+          operation: operations[row.__$operation] || String(row.__$operation),
+          lsn: toHex(row.__$start_lsn),
+          seqval: row.__$seqval ? toHex(row.__$seqval) : null,
+          row: data,
+        });
+
+        if (currentBatch.length >= batchSize) {
+          await emitBatch(true);
+        }
+      }
+
+      if (currentBatch.length > 0) {
+        await emitBatch(false);
+      }
+
+      // Only advance once every change has been emitted
+      await kv.block.set({ key: LSN_KEY, value: toHex(maxLsn) });
+    },
+    { canRetry: () => !emitted },
+  );
+}
+
+export const consumeCdcChanges: AppBlock = {
+  name: "Consume CDC Changes",
+  description:
+    "Periodically emits before and after images of changes recorded by SQL Server Change Data Capture",
+  category: "Change Data",
+
+  config: {
+    captureInstance: {
+      name: "Capture Instance",
+      description: "Name of the CDC capture instance (e.g., 'dbo_orders')",
+      type: "string",
+      required: true,
+    },
+    mode: {
+      name: "Change Mode",
+      description:
+        "'all' emits every change including update before-images, 'net' emits one final change per row",
+      type: {
+        type: "string",
+        enum: ["all", "net"],
+      },
+      required: false,
+      default: "all",
+    },
+    batchSize: {
+      name: "Batch Size",
+      description: "Maximum number of changes per emitted event",
+      type: "number",
+      required: false,
+      default: 100,
+    },
+    database: {
+      name: "Database",
+      description:
+        "Database to use instead of the one in the app configuration (same server and credentials)",
+      type: "string",
+      required: false,
+    },
+  },
+
+  inputs: {
+    default: {
+      name: "Poll Now",
+      description: "Checks for changes immediately instead of waiting",
+      config: {},
+      async onEvent(input) {
+        await consumeChanges(input.app.config, input.block.config);
+      },
+    },
+  },
+
+  schedules: {
+    poll: {
+      description: "Reads new changes from the capture instance",
+      customizable: true,
+      definition: {
+        type: "frequency",
+        frequency: {
+          interval: 1,
+          unit: "minutes",
+        },
+      },
+      async onTrigger(input) {
+        await consumeChanges(input.app.config, input.block.config);
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Changes",
+      description: "Emitted for each batch of changes in LSN order",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          captureInstance: {
+            type: "string",
+            description: "The capture instance the changes were read from",
+          },
+          batchNumber: {
+            type: "number",
+            description: "Sequential batch number starting from 0",
+          },
+          changes: {
+            type: "array",
+            description: "Changes in this batch",
+            items: {
+              type: "object",
+              properties: {
+                operation: {
+                  type: "string",
+                  description:
+                    "Change type (insert, update_before, update_after, delete, or update in net mode)",
+                },
+                lsn: {
+                  type: "string",
+                  description: "Commit LSN of the change as a hex string",
+                },
+                seqval: {
+                  type: "string",
+                  description:
+                    "Sequence value ordering changes within a transaction (all mode)",
+                },
+                row: {
+                  type: "object",
+                  description: "Captured column values",
+                },
+              },
+              required: ["operation", "lsn", "row"],
+            },
+          },
+          changeCount: {
+            type: "number",
+            description: "Number of changes in this batch",
+          },
+          hasMore: {
+            type: "boolean",
+            description: "Whether more batches are expected for this poll",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: [
+          "captureInstance",
+          "batchNumber",
+          "changes",
+          "changeCount",
+          "hasMore",
+        ],
+      },
+    },
+    resyncRequired: {
+      name: "Resync Required",
+      description:
+        "Emitted when changes after the last stored LSN were already purged by CDC cleanup",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          captureInstance: {
+            type: "string",
+            description: "The capture instance name",
+          },
+          lastLsn: {
+            type: "string",
+            description: "The LSN that was last consumed",
+          },
+          minLsn: {
+            type: "string",
+            description:
+              "The oldest LSN still available, where reading resumes",
+          },
+        },
+        required: ["captureInstance", "lastLsn", "minLsn"],
+      },
+    },
+  },
+};
@@ -1,5 +1,27 @@
 import { AppBlock, events } from "@slflows/sdk/v1";
-import { getPool } from "../utils/pool.ts";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { bindQueryParameters } from "../utils/parameters.ts";
+import {
+  getSerializationOptions,
+  serializeRecordset,
+} from "../utils/serialize.ts";
+import {
+  classifySql,
+  findStatementPolicyViolation,
+  StatementKind,
+  statementKinds,
+} from "../utils/sqlClassifier.ts";
+import {
+  handleBlockError,
+  rejectionError,
+  sqlErrorSchema,
+} from "../utils/errors.ts";
+
+// rowsAffected is an array - sum all affected rows
+function sumRowsAffected(rowsAffected: number[]): number {
+  return rowsAffected.reduce((sum, count) => sum + count, 0);
+}
 
 export const executeCommand: AppBlock = {
   name: "Execute Command",
@@ -20,37 +42,215 @@ export const executeCommand: AppBlock = {
         parameters: {
           name: "Parameters",
           description:
-            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name)",
+            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name). Use { value, type } to declare the SQL type (e.g. { code: { value: 'A1', type: 'varchar(10)' } }). Arrays become table variables that can be joined (e.g. { ids: [1, 2, 3] } for @ids), optionally bound to a table type (e.g. { value: [...], type: 'dbo.IdList' })",
           type: {
             type: "object",
             additionalProperties: true,
           },
           required: false,
         },
+        allowedStatementKinds: {
+          name: "Allowed Statement Kinds",
+          description:
+            "Reject the command if it contains a statement of any other kind (e.g. ['dml'] to only allow INSERT, UPDATE, DELETE and MERGE)",
+          type: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [...statementKinds],
+            },
+          },
+          required: false,
+        },
+        deniedStatementKinds: {
+          name: "Denied Statement Kinds",
+          description:
+            "Reject the command if it contains a statement of any of these kinds (e.g. ['ddl', 'dcl'])",
+          type: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: [...statementKinds],
+            },
+          },
+          required: false,
+        },
+        dryRun: {
+          name: "Dry Run",
+          description:
+            "Run the command in a transaction that is always rolled back, and report what it would have changed",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        sampleSize: {
+          name: "Sample Size",
+          description:
+            "Maximum number of rows returned by OUTPUT clauses to include in a dry run result",
+          type: "number",
+          required: false,
+          default: 10,
+        },
+        maxRowsAffected: {
+          name: "Max Rows Affected",
+          description:
+            "Roll back and fail if the command affects more rows than this in total (leave empty for no limit)",
+          type: "number",
+          required: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry after deadlocks, throttling or dropped connections (only enable when the command can safely run again after a failure)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        errorHandling: {
+          name: "Error Handling",
+          description:
+            "'throw' fails the block when the operation fails, 'emit' sends the error details to the Error output instead",
+          type: {
+            type: "string",
+            enum: ["throw", "emit"],
+          },
+          required: false,
+          default: "throw",
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
       },
       async onEvent(input) {
-        const { command, parameters } = input.event.inputConfig;
-        const pool = await getPool(input.app.config);
+        const {
+          command,
+          parameters,
+          allowedStatementKinds,
+          deniedStatementKinds,
+          dryRun,
+          sampleSize,
+          maxRowsAffected,
+          retryOnTransientErrors,
+          errorHandling,
+          database,
+        } = input.event.inputConfig;
 
-        const request = pool.request();
+        try {
+          const classification = classifySql(command as string);
+          const violation = findStatementPolicyViolation(
+            classification,
+            allowedStatementKinds as StatementKind[] | undefined,
+            deniedStatementKinds as StatementKind[] | undefined,
+          );
+          if (violation) {
+            throw rejectionError(`Command rejected: ${violation}`);
+          }
 
-        // Add user-defined parameters
-        const params = (parameters as Record<string, any>) || {};
-        for (const [name, value] of Object.entries(params)) {
-          request.input(name, value);
-        }
+          // A COMMIT or ROLLBACK in the command would end the wrapping
+          // transaction early, making the rollback below a no-op
+          if (dryRun || maxRowsAffected != null) {
+            const transactionStatement = classification.statements.find(
+              (statement) => statement.kind === "transaction",
+            );
+            if (transactionStatement) {
+              throw rejectionError(
+                `Command rejected: ${transactionStatement.keyword} on line ${transactionStatement.line} cannot be used with Dry Run or Max Rows Affected`,
+              );
+            }
+          }
+
+          const { result, attempts } = await withRetry(
+            input.app.config,
+            {
+              database: database as string | undefined,
+            },
+            async (pool) => {
+              // Plain runs without a limit need no transaction
+              if (!dryRun && maxRowsAffected == null) {
+                const request = pool.request();
+
+                // Add user-defined parameters, unpacking arrays into tables
+                const sqlText = await bindQueryParameters(
+                  request,
+                  pool,
+                  command as string,
+                  parameters as Record<string, any>,
+                );
+
+                return request.query(sqlText);
+              }
+
+              const transaction = new sql.Transaction(pool);
+              await transaction.begin();
 
-        const result = await request.query(command as string);
+              let result: sql.IResult<any>;
+              try {
+                const request = new sql.Request(transaction);
+                const sqlText = await bindQueryParameters(
+                  request,
+                  transaction,
+                  command as string,
+                  parameters as Record<string, any>,
+                );
+                result = await request.query(sqlText);
+              } catch (error) {
+                await transaction.rollback().catch(() => {});
+                throw error;
+              }
 
-        // rowsAffected is an array - sum all affected rows
-        const totalRowsAffected = result.rowsAffected.reduce(
-          (sum, count) => sum + count,
-          0,
-        );
+              const totalRowsAffected = sumRowsAffected(result.rowsAffected);
+              if (dryRun) {
+                await transaction.rollback().catch(() => {});
+              } else if (totalRowsAffected > (maxRowsAffected as number)) {
+                await transaction.rollback().catch(() => {});
+                throw rejectionError(
+                  `Command affected ${totalRowsAffected} rows, more than the maximum of ${maxRowsAffected}; rolled back`,
+                );
+              } else {
+                await transaction.commit();
+              }
+              return result;
+            },
+            { enabled: Boolean(retryOnTransientErrors) },
+          );
 
-        await events.emit({
-          rowsAffected: totalRowsAffected,
-        });
+          const totalRowsAffected = sumRowsAffected(result.rowsAffected);
+
+          if (dryRun) {
+            // Rows returned by OUTPUT clauses, in statement order
+            const limit = (sampleSize as number | undefined) ?? 10;
+            const serialization = getSerializationOptions(input.app.config);
+            const sampleRows = (result.recordsets as sql.IRecordSet<any>[])
+              .flatMap((recordset) =>
+                serializeRecordset(recordset, recordset.columns, serialization),
+              )
+              .slice(0, limit);
+
+            await events.emit({
+              dryRun: true,
+              rowsAffected: totalRowsAffected,
+              statementRowsAffected: result.rowsAffected,
+              sampleRows,
+              maxRowsAffectedExceeded:
+                maxRowsAffected != null &&
+                totalRowsAffected > (maxRowsAffected as number),
+              attempts,
+            });
+            return;
+          }
+
+          await events.emit({
+            rowsAffected: totalRowsAffected,
+            statementRowsAffected: result.rowsAffected,
+            attempts,
+          });
+        } catch (error) {
+          await handleBlockError(error, errorHandling);
+        }
       },
     },
   },
@@ -68,9 +268,46 @@ export const executeCommand: AppBlock = {
             type: "number",
             description: "Number of rows affected by the command",
           },
+          statementRowsAffected: {
+            type: "array",
+            description: "Number of rows affected by each statement",
+            items: {
+              type: "number",
+            },
+          },
+          dryRun: {
+            type: "boolean",
+            description:
+              "Present and true when the command was rolled back as a dry run",
+          },
+          sampleRows: {
+            type: "array",
+            description:
+              "Dry run only: sample of rows returned by OUTPUT clauses",
+            items: {
+              type: "object",
+            },
+          },
+          maxRowsAffectedExceeded: {
+            type: "boolean",
+            description:
+              "Dry run only: whether a real run would have exceeded Max Rows Affected",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
         },
         required: ["rowsAffected"],
       },
     },
+    error: {
+      name: "Error",
+      description:
+        "Emitted with the error details when the operation fails and Error Handling is 'emit'",
+      possiblePrimaryParents: ["default"],
+      type: sqlErrorSchema,
+    },
   },
 };
@@ -0,0 +1,171 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { sanitizeTableName } from "../utils/identifiers.ts";
+import { parseSqlType } from "../utils/sqlTypes.ts";
+import { bindParameters } from "../utils/parameters.ts";
+import {
+  getSerializationOptions,
+  serializeRecordset,
+  serializeValue,
+} from "../utils/serialize.ts";
+
+export const executeProcedure: AppBlock = {
+  name: "Execute Procedure",
+  description:
+    "Executes a stored procedure and returns its output parameters, return value and all result sets",
+  category: "Basic",
+
+  inputs: {
+    default: {
+      config: {
+        procedure: {
+          name: "Procedure Name",
+          description:
+            "Stored procedure name (optionally with schema, e.g., 'dbo.usp_create_order')",
+          type: "string",
+          required: true,
+        },
+        parameters: {
+          name: "Input Parameters",
+          description:
+            "Map of parameter names to values. Use { value, type } to declare the SQL type (e.g. { customerId: { value: 42, type: 'int' } })",
+          type: {
+            type: "object",
+            additionalProperties: true,
+          },
+          required: false,
+        },
+        outputParameters: {
+          name: "Output Parameters",
+          description:
+            "Map of OUTPUT parameter names to SQL types (e.g. { orderId: 'int', status: 'varchar(20)' })",
+          type: {
+            type: "object",
+            additionalProperties: {
+              type: "string",
+            },
+          },
+          required: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry after deadlocks, throttling or dropped connections (only enable when the procedure can safely run again after a failure)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const {
+          procedure,
+          parameters,
+          outputParameters,
+          retryOnTransientErrors,
+          database,
+        } = input.event.inputConfig;
+        const outputs = (outputParameters as Record<string, string>) || {};
+
+        const { result, attempts } = await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            const request = pool.request();
+
+            // Add input parameters
+            bindParameters(request, parameters as Record<string, any>);
+
+            // Declare output parameters
+            for (const [name, type] of Object.entries(outputs)) {
+              request.output(name, parseSqlType(type));
+            }
+
+            const result = await request.execute(
+              sanitizeTableName(procedure as string),
+            );
+
+            return result;
+          },
+          { enabled: Boolean(retryOnTransientErrors) },
+        );
+
+        const serialization = getSerializationOptions(input.app.config);
+        const recordsets = (result.recordsets as sql.IRecordSet<any>[]).map(
+          (recordset) =>
+            serializeRecordset(recordset, recordset.columns, serialization),
+        );
+
+        // Output parameters are serialized by their declared types
+        const output: Record<string, any> = {};
+        for (const [key, value] of Object.entries(result.output || {})) {
+          const type = outputs[key] ? parseSqlType(outputs[key]) : undefined;
+          output[key] = serializeValue(value, type, serialization);
+        }
+
+        await events.emit({
+          returnValue: result.returnValue,
+          output,
+          recordsets,
+          rowsAffected: result.rowsAffected,
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Procedure Result",
+      description: "The result of the stored procedure execution",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          returnValue: {
+            type: "number",
+            description: "Value returned by the procedure's RETURN statement",
+          },
+          output: {
+            type: "object",
+            description: "Values of the declared OUTPUT parameters",
+            additionalProperties: true,
+          },
+          recordsets: {
+            type: "array",
+            description: "Every result set returned by the procedure",
+            items: {
+              type: "array",
+              items: {
+                type: "object",
+              },
+            },
+          },
+          rowsAffected: {
+            type: "array",
+            description: "Rows affected by each statement in the procedure",
+            items: {
+              type: "number",
+            },
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: ["returnValue", "output", "recordsets", "rowsAffected"],
+      },
+    },
+  },
+};
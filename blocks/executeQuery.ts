@@ -1,5 +1,25 @@
 import { AppBlock, events } from "@slflows/sdk/v1";
-import { getPool } from "../utils/pool.ts";
+import * as sql from "mssql";
+import { PoolRoute } from "../utils/pool.ts";
+import { withRetry } from "../utils/retry.ts";
+import { bindQueryParameters } from "../utils/parameters.ts";
+import { describeColumns } from "../utils/columns.ts";
+import { queryWithRowLimit } from "../utils/stream.ts";
+import {
+  getSerializationOptions,
+  serializeRecordset,
+} from "../utils/serialize.ts";
+import {
+  buildPageQuery,
+  createContinuationToken,
+  PaginationMode,
+} from "../utils/pagination.ts";
+import { classifySql, findReadOnlyViolation } from "../utils/sqlClassifier.ts";
+import {
+  handleBlockError,
+  rejectionError,
+  sqlErrorSchema,
+} from "../utils/errors.ts";
 
 export const executeQuery: AppBlock = {
   name: "Execute Query",
@@ -18,44 +38,282 @@ export const executeQuery: AppBlock = {
         parameters: {
           name: "Parameters",
           description:
-            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name)",
+            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name). Use { value, type } to declare the SQL type (e.g. { code: { value: 'A1', type: 'varchar(10)' } }). Arrays become table variables that can be joined (e.g. { ids: [1, 2, 3] } for @ids), optionally bound to a table type (e.g. { value: [...], type: 'dbo.IdList' })",
           type: {
             type: "object",
             additionalProperties: true,
           },
           required: false,
         },
+        target: {
+          name: "Target",
+          description:
+            "Run against the primary or a read replica (requires Read Replica Routing in the app configuration)",
+          type: {
+            type: "string",
+            enum: ["primary", "replica"],
+          },
+          required: false,
+          default: "primary",
+        },
+        includeRecordsets: {
+          name: "Include All Recordsets",
+          description:
+            "Also return every result set, for batches with multiple SELECTs",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        includeColumns: {
+          name: "Include Column Metadata",
+          description:
+            "Return the name, SQL type, nullability, length and precision of each result column",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        includeMessages: {
+          name: "Include Messages",
+          description:
+            "Return PRINT output and other informational messages raised by the query",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        readOnly: {
+          name: "Read-Only",
+          description:
+            "Reject the query unless it only contains SELECT statements (always on when Read-Only Mode is set in the app configuration)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        maxRows: {
+          name: "Max Rows",
+          description:
+            "Stop reading after this many rows across all result sets and set truncated in the result (leave empty for no limit)",
+          type: "number",
+          required: false,
+        },
+        pagination: {
+          name: "Pagination",
+          description:
+            "'offset' pages with OFFSET/FETCH, 'keyset' pages after the last row's Order By values. The query must be a single SELECT without ORDER BY",
+          type: {
+            type: "string",
+            enum: ["none", "offset", "keyset"],
+          },
+          required: false,
+          default: "none",
+        },
+        pageSize: {
+          name: "Page Size",
+          description: "Number of rows per page when paginating",
+          type: "number",
+          required: false,
+          default: 100,
+        },
+        orderBy: {
+          name: "Order By",
+          description:
+            "Columns to order pages by, optionally followed by 'desc' (e.g. ['created_at desc', 'id']). Keyset pagination needs a unique, non-null combination that the query returns",
+          type: {
+            type: "array",
+            items: {
+              type: "string",
+            },
+          },
+          required: false,
+        },
+        continuationToken: {
+          name: "Continuation Token",
+          description:
+            "Token from a previous page's result to fetch the next page",
+          type: "string",
+          required: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry queries that do more than SELECT after deadlocks, throttling or dropped connections (only enable when they can safely run again after a failure). Pure SELECT queries always retry",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        errorHandling: {
+          name: "Error Handling",
+          description:
+            "'throw' fails the block when the operation fails, 'emit' sends the error details to the Error output instead",
+          type: {
+            type: "string",
+            enum: ["throw", "emit"],
+          },
+          required: false,
+          default: "throw",
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
       },
       async onEvent(input) {
-        const { query, parameters } = input.event.inputConfig;
-        const pool = await getPool(input.app.config);
+        const {
+          query,
+          parameters,
+          includeRecordsets,
+          includeColumns,
+          includeMessages,
+          target,
+          readOnly,
+          maxRows,
+          pagination,
+          pageSize: configPageSize,
+          orderBy,
+          continuationToken,
+          retryOnTransientErrors,
+          errorHandling,
+          database,
+        } = input.event.inputConfig;
+        const paginationMode =
+          pagination && pagination !== "none"
+            ? (pagination as PaginationMode)
+            : null;
+        const pageSize = (configPageSize as number) || 100;
 
-        const request = pool.request();
+        try {
+          const classification = classifySql(query as string);
 
-        // Add user-defined parameters
-        const params = (parameters as Record<string, any>) || {};
-        for (const [name, value] of Object.entries(params)) {
-          request.input(name, value);
-        }
+          // Reject writes before anything reaches the server
+          if (input.app.config.readOnlyMode || readOnly) {
+            const violation = findReadOnlyViolation(classification);
+            if (violation) {
+              throw rejectionError(
+                `Query rejected by read-only mode: ${violation}`,
+              );
+            }
+          }
 
-        const result = await request.query(query as string);
+          const pageQuery = paginationMode
+            ? buildPageQuery(
+                query as string,
+                paginationMode,
+                orderBy as string[],
+                pageSize,
+                continuationToken as string | undefined,
+              )
+            : null;
 
-        // Handle BigInt serialization
-        const rows = result.recordset.map((row: any) => {
-          const serializedRow: any = {};
-          for (const [key, value] of Object.entries(row)) {
-            if (typeof value === "bigint") {
-              serializedRow[key] = value.toString();
-            } else {
-              serializedRow[key] = value;
-            }
+          const { result, attempts } = await withRetry(
+            input.app.config,
+            {
+              route: target as PoolRoute,
+              database: database as string | undefined,
+            },
+            async (pool) => {
+              const request = pool.request();
+
+              // Add user-defined parameters, unpacking arrays into tables
+              const sqlText = await bindQueryParameters(
+                request,
+                pool,
+                pageQuery ? pageQuery.sql : (query as string),
+                {
+                  ...((parameters as Record<string, any>) || {}),
+                  ...pageQuery?.parameters,
+                },
+              );
+
+              // Collect PRINT and other informational messages
+              const messages: any[] = [];
+              request.on("info", (info: any) => {
+                messages.push({
+                  message: info.message,
+                  number: info.number,
+                  state: info.state,
+                  severity: info.class,
+                  lineNumber: info.lineNumber,
+                  procedure: info.procName || null,
+                });
+              });
+
+              // Stop reading once maxRows is passed instead of buffering everything
+              if (!pageQuery && maxRows != null) {
+                const limited = await queryWithRowLimit(
+                  request,
+                  sqlText,
+                  maxRows as number,
+                );
+                return { ...limited, messages };
+              }
+
+              const result = await request.query(sqlText);
+              const resultSets = (result.recordsets ||
+                []) as sql.IRecordSet<any>[];
+              return {
+                recordsets: resultSets as any[][],
+                columns: resultSets.map((recordset) => recordset.columns),
+                rowsAffected: result.rowsAffected,
+                truncated: false,
+                messages,
+              };
+            },
+            // A failed write may have partly succeeded, so only reads retry by default
+            {
+              enabled:
+                findReadOnlyViolation(classification) === null ||
+                Boolean(retryOnTransientErrors),
+            },
+          );
+
+          const serialization = getSerializationOptions(input.app.config);
+          const recordsets = result.recordsets.map((recordset, i) =>
+            serializeRecordset(recordset, result.columns[i], serialization),
+          );
+
+          let rows = recordsets[0] || [];
+          let page: Record<string, any> = {};
+          if (pageQuery && paginationMode) {
+            // One row past the page was fetched to tell whether more follow
+            const hasMore = rows.length > pageSize;
+            rows = rows.slice(0, pageSize);
+            page = {
+              page: pageQuery.page,
+              pageSize,
+              hasMore,
+              continuationToken: hasMore
+                ? createContinuationToken(
+                    query as string,
+                    paginationMode,
+                    orderBy as string[],
+                    pageQuery.page,
+                    pageSize,
+                    // Keys are taken from the values as read, before serialization
+                    result.recordsets[0].slice(0, pageSize),
+                  )
+                : null,
+            };
           }
-          return serializedRow;
-        });
 
-        await events.emit({
-          rows,
-        });
+          await events.emit({
+            rows,
+            rowsAffected: result.rowsAffected,
+            truncated: result.truncated,
+            ...page,
+            ...(includeRecordsets && { recordsets }),
+            ...(includeColumns && {
+              columns: result.columns.map((columns) =>
+                describeColumns(columns),
+              ),
+            }),
+            ...(includeMessages && { messages: result.messages }),
+            attempts,
+          });
+        } catch (error) {
+          await handleBlockError(error, errorHandling);
+        }
       },
     },
   },
@@ -76,9 +334,128 @@ export const executeQuery: AppBlock = {
               type: "object",
             },
           },
+          rowsAffected: {
+            type: "array",
+            description: "Number of rows affected by each statement",
+            items: {
+              type: "number",
+            },
+          },
+          recordsets: {
+            type: "array",
+            description: "Every result set returned by the query",
+            items: {
+              type: "array",
+              items: {
+                type: "object",
+              },
+            },
+          },
+          columns: {
+            type: "array",
+            description: "Column metadata for each result set",
+            items: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                    description: "Column name",
+                  },
+                  type: {
+                    type: "string",
+                    description: "SQL Server data type",
+                  },
+                  nullable: {
+                    type: "boolean",
+                    description: "Whether the column allows NULL values",
+                  },
+                  length: {
+                    type: "number",
+                    description: "Maximum length (for string/binary types)",
+                  },
+                  precision: {
+                    type: "number",
+                    description: "Numeric precision (for numeric types)",
+                  },
+                  scale: {
+                    type: "number",
+                    description: "Numeric scale (for numeric and time types)",
+                  },
+                },
+              },
+            },
+          },
+          messages: {
+            type: "array",
+            description: "PRINT output and informational messages",
+            items: {
+              type: "object",
+              properties: {
+                message: {
+                  type: "string",
+                  description: "Message text",
+                },
+                number: {
+                  type: "number",
+                  description: "Message number",
+                },
+                state: {
+                  type: "number",
+                  description: "Message state",
+                },
+                severity: {
+                  type: "number",
+                  description: "Message severity class",
+                },
+                lineNumber: {
+                  type: "number",
+                  description: "Line of the batch that raised the message",
+                },
+                procedure: {
+                  type: "string",
+                  description: "Procedure that raised the message, if any",
+                },
+              },
+            },
+          },
+          truncated: {
+            type: "boolean",
+            description: "Whether rows were left unread because of Max Rows",
+          },
+          page: {
+            type: "number",
+            description: "Page number starting from 1 (when paginating)",
+          },
+          pageSize: {
+            type: "number",
+            description: "Maximum number of rows per page (when paginating)",
+          },
+          hasMore: {
+            type: "boolean",
+            description: "Whether another page follows (when paginating)",
+          },
+          continuationToken: {
+            type: "string",
+            description:
+              "Token that fetches the next page, or null on the last page",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
         },
-        required: ["rows"],
+        required: ["rows", "rowsAffected"],
       },
     },
+    error: {
+      name: "Error",
+      description:
+        "Emitted with the error details when the operation fails and Error Handling is 'emit'",
+      possiblePrimaryParents: ["default"],
+      type: sqlErrorSchema,
+    },
   },
 };
@@ -0,0 +1,273 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { bindParameters, isTypedParameter } from "../utils/parameters.ts";
+import {
+  getSerializationOptions,
+  serializeRecordset,
+} from "../utils/serialize.ts";
+
+const isolationLevels: Record<string, number> = {
+  READ_UNCOMMITTED: sql.ISOLATION_LEVEL.READ_UNCOMMITTED,
+  READ_COMMITTED: sql.ISOLATION_LEVEL.READ_COMMITTED,
+  REPEATABLE_READ: sql.ISOLATION_LEVEL.REPEATABLE_READ,
+  SERIALIZABLE: sql.ISOLATION_LEVEL.SERIALIZABLE,
+  SNAPSHOT: sql.ISOLATION_LEVEL.SNAPSHOT,
+};
+
+interface StatementResult {
+  index: number;
+  // Rows as read, so later statements bind the original values
+  rows: any[];
+  columns?: sql.IColumnMetadata;
+  rowsAffected: number;
+}
+
+/**
+ * Resolves a parameter value that references an earlier statement's output,
+ * e.g. { fromStatement: 0, column: "id" } takes the "id" column of the first
+ * row returned by statement 0.
+ */
+function resolveParameterValue(
+  name: string,
+  value: any,
+  results: StatementResult[],
+): any {
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    !("fromStatement" in value)
+  ) {
+    return value;
+  }
+
+  const { fromStatement, column } = value as {
+    fromStatement: number;
+    column: string;
+  };
+  const source = results[fromStatement];
+  if (!source) {
+    throw new Error(
+      `Parameter @${name} references statement ${fromStatement}, which has not run yet`,
+    );
+  }
+  if (source.rows.length === 0 || !(column in source.rows[0])) {
+    throw new Error(
+      `Parameter @${name} references column "${column}" of statement ${fromStatement}, but it returned no such value`,
+    );
+  }
+  const resolved = source.rows[0][column];
+  return typeof resolved === "bigint" ? resolved.toString() : resolved;
+}
+
+export const executeTransaction: AppBlock = {
+  name: "Execute Transaction",
+  description:
+    "Executes several statements atomically in a single transaction, rolling back if any of them fails",
+  category: "Basic",
+
+  inputs: {
+    default: {
+      config: {
+        statements: {
+          name: "Statements",
+          description:
+            "Ordered list of statements, each { sql, parameters }. Parameters accept plain values or { value, type }. A parameter value of { fromStatement: 0, column: 'id' } uses the first row returned by an earlier statement (e.g. SELECT SCOPE_IDENTITY() AS id)",
+          type: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                sql: {
+                  type: "string",
+                },
+                parameters: {
+                  type: "object",
+                  additionalProperties: true,
+                },
+              },
+              required: ["sql"],
+            },
+          },
+          required: true,
+        },
+        isolationLevel: {
+          name: "Isolation Level",
+          description: "Transaction isolation level",
+          type: {
+            type: "string",
+            enum: Object.keys(isolationLevels),
+          },
+          required: false,
+          default: "READ_COMMITTED",
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Rerun the whole transaction after deadlocks, throttling or dropped connections",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const { statements, isolationLevel, retryOnTransientErrors, database } =
+          input.event.inputConfig;
+
+        const statementList = statements as {
+          sql: string;
+          parameters?: Record<string, any>;
+        }[];
+
+        const level = isolationLevels[(isolationLevel as string) || ""];
+        if (isolationLevel && level === undefined) {
+          throw new Error(`Unknown isolation level: ${isolationLevel}`);
+        }
+
+        // Set once COMMIT is sent: if it fails, the transaction may have committed
+        let commitSent = false;
+
+        const { result: results, attempts } = await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            const transaction = new sql.Transaction(pool);
+            await transaction.begin(
+              level ?? sql.ISOLATION_LEVEL.READ_COMMITTED,
+            );
+
+            const results: StatementResult[] = [];
+            let currentIndex = 0;
+
+            try {
+              for (; currentIndex < statementList.length; currentIndex++) {
+                const statement = statementList[currentIndex];
+                const request = new sql.Request(transaction);
+
+                const params: Record<string, any> = {};
+                for (const [name, value] of Object.entries(
+                  statement.parameters || {},
+                )) {
+                  params[name] = isTypedParameter(value)
+                    ? {
+                        ...value,
+                        value: resolveParameterValue(
+                          name,
+                          value.value,
+                          results,
+                        ),
+                      }
+                    : resolveParameterValue(name, value, results);
+                }
+                bindParameters(request, params);
+
+                const result = await request.query(statement.sql);
+
+                results.push({
+                  index: currentIndex,
+                  rows: result.recordset || [],
+                  columns: result.recordset?.columns,
+                  rowsAffected: result.rowsAffected.reduce(
+                    (sum, count) => sum + count,
+                    0,
+                  ),
+                });
+              }
+            } catch (error: any) {
+              // The server may already have aborted the transaction (e.g. on a deadlock)
+              await transaction.rollback().catch(() => {});
+
+              // Keep the original error as the cause so it can still be classified
+              throw new Error(
+                `Statement ${currentIndex} failed, transaction rolled back: ${error.message}`,
+                { cause: error },
+              );
+            }
+
+            try {
+              commitSent = true;
+              await transaction.commit();
+            } catch (error: any) {
+              await transaction.rollback().catch(() => {});
+              throw new Error(
+                `Commit failed, the transaction may or may not have been committed: ${error.message}`,
+                { cause: error },
+              );
+            }
+
+            return results;
+          },
+          {
+            enabled: Boolean(retryOnTransientErrors),
+            // Running a transaction that did commit again would apply it twice
+            canRetry: () => !commitSent,
+          },
+        );
+
+        const serialization = getSerializationOptions(input.app.config);
+        await events.emit({
+          results: results.map(({ index, rows, columns, rowsAffected }) => ({
+            index,
+            rows: serializeRecordset(rows, columns, serialization),
+            rowsAffected,
+          })),
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Transaction Result",
+      description: "Per-statement results of the committed transaction",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          results: {
+            type: "array",
+            description: "Results of each statement, in execution order",
+            items: {
+              type: "object",
+              properties: {
+                index: {
+                  type: "number",
+                  description: "Position of the statement starting from 0",
+                },
+                rows: {
+                  type: "array",
+                  description: "Rows returned by the statement",
+                  items: {
+                    type: "object",
+                  },
+                },
+                rowsAffected: {
+                  type: "number",
+                  description: "Number of rows affected by the statement",
+                },
+              },
+              required: ["index", "rows", "rowsAffected"],
+            },
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: ["results"],
+      },
+    },
+  },
+};
@@ -0,0 +1,386 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import zlib from "zlib";
+import { PoolRoute } from "../utils/pool.ts";
+import { withRetry } from "../utils/retry.ts";
+import { streamRows } from "../utils/stream.ts";
+import { bindQueryParameters } from "../utils/parameters.ts";
+import { classifySql, findReadOnlyViolation } from "../utils/sqlClassifier.ts";
+import { getSerializationOptions, serializeRow } from "../utils/serialize.ts";
+import { rejectionError } from "../utils/errors.ts";
+import {
+  CsvOptions,
+  csvQuotingModes,
+  ExportFormat,
+  exportContentTypes,
+  exportFormats,
+  formatCsvLine,
+} from "../utils/export.ts";
+
+// Default cap on the uncompressed file, which is built in memory
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+export const exportQuery: AppBlock = {
+  name: "Export Query",
+  description:
+    "Executes a query and exports the results as a CSV, NDJSON or JSON file",
+  category: "Bulk Operations",
+
+  inputs: {
+    default: {
+      config: {
+        query: {
+          name: "SQL Query",
+          description:
+            "SQL query to export, with optional @parameter placeholders. The query should return a single result set",
+          type: "string",
+          required: true,
+        },
+        parameters: {
+          name: "Parameters",
+          description:
+            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name). Use { value, type } to declare the SQL type (e.g. { code: { value: 'A1', type: 'varchar(10)' } }). Arrays become table variables that can be joined (e.g. { ids: [1, 2, 3] } for @ids), optionally bound to a table type (e.g. { value: [...], type: 'dbo.IdList' })",
+          type: {
+            type: "object",
+            additionalProperties: true,
+          },
+          required: false,
+        },
+        format: {
+          name: "Format",
+          description:
+            "'csv', 'ndjson' (one JSON object per line) or 'json' (an array of objects)",
+          type: {
+            type: "string",
+            enum: [...exportFormats],
+          },
+          required: false,
+          default: "csv",
+        },
+        delimiter: {
+          name: "CSV Delimiter",
+          description:
+            "Character separating CSV fields (e.g. ',', ';' or '\\t')",
+          type: "string",
+          required: false,
+          default: ",",
+        },
+        quoting: {
+          name: "CSV Quoting",
+          description:
+            "'minimal' quotes only fields containing the delimiter, quotes, line breaks or surrounding spaces; 'all' quotes every non-null field",
+          type: {
+            type: "string",
+            enum: [...csvQuotingModes],
+          },
+          required: false,
+          default: "minimal",
+        },
+        includeHeader: {
+          name: "CSV Header",
+          description: "Write the column names as the first CSV line",
+          type: "boolean",
+          required: false,
+          default: true,
+        },
+        nullValue: {
+          name: "CSV Null Value",
+          description:
+            "Text written for NULL values in CSV (e.g. '' or 'NULL')",
+          type: "string",
+          required: false,
+          default: "",
+        },
+        gzip: {
+          name: "Gzip",
+          description:
+            "Compress the file with gzip; the content is then emitted base64-encoded",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        fileName: {
+          name: "File Name",
+          description:
+            "Name reported for the file (defaults to 'export' with the format's extension, plus '.gz' when compressed)",
+          type: "string",
+          required: false,
+        },
+        maxRows: {
+          name: "Max Rows",
+          description:
+            "Stop exporting after this many rows and cancel the rest of the query (leave empty for no limit)",
+          type: "number",
+          required: false,
+        },
+        maxBytes: {
+          name: "Max Size (Bytes)",
+          description:
+            "Stop exporting before the uncompressed file would grow past this size and cancel the rest of the query (default: 50 MB)",
+          type: "number",
+          required: false,
+          default: DEFAULT_MAX_BYTES,
+        },
+        target: {
+          name: "Target",
+          description:
+            "Run against the primary or a read replica (requires Read Replica Routing in the app configuration)",
+          type: {
+            type: "string",
+            enum: ["primary", "replica"],
+          },
+          required: false,
+          default: "primary",
+        },
+        readOnly: {
+          name: "Read-Only",
+          description:
+            "Reject the query unless it only contains SELECT statements (always on when Read-Only Mode is set in the app configuration)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry queries that do more than SELECT after deadlocks, throttling or dropped connections (only enable when they can safely run again after a failure). Pure SELECT queries always retry",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const {
+          query,
+          parameters,
+          format: configFormat,
+          delimiter,
+          quoting,
+          includeHeader,
+          nullValue,
+          gzip,
+          fileName,
+          maxRows,
+          maxBytes: configMaxBytes,
+          target,
+          readOnly,
+          retryOnTransientErrors,
+          database,
+        } = input.event.inputConfig;
+        const format = ((configFormat as string) || "csv") as ExportFormat;
+        const maxBytes = (configMaxBytes as number) || DEFAULT_MAX_BYTES;
+        const csvOptions: CsvOptions = {
+          delimiter: (delimiter as string) || ",",
+          quoting: quoting === "all" ? "all" : "minimal",
+          nullValue: (nullValue as string | undefined) ?? "",
+        };
+
+        // Reject writes before anything reaches the server
+        const violation = findReadOnlyViolation(classifySql(query as string));
+        if (input.app.config.readOnlyMode || readOnly) {
+          if (violation) {
+            throw rejectionError(
+              `Query rejected by read-only mode: ${violation}`,
+            );
+          }
+        }
+
+        const serialization = getSerializationOptions(input.app.config);
+
+        const { result, attempts } = await withRetry(
+          input.app.config,
+          {
+            route: target as PoolRoute,
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            const request = pool.request();
+
+            // Add user-defined parameters, unpacking arrays into tables
+            const sqlText = await bindQueryParameters(
+              request,
+              pool,
+              query as string,
+              parameters as Record<string, any>,
+            );
+
+            // Rows are formatted as they arrive, so only the file text is
+            // held in memory, and Max Size bounds it
+            const parts: string[] = [];
+            let byteSize = 0;
+            let columns: sql.IColumnMetadata | undefined;
+            let recordsetCount = 0;
+            let header: string[] | null = null;
+            let rowCount = 0;
+            let truncated = false;
+
+            const write = (text: string) => {
+              parts.push(text);
+              byteSize += Buffer.byteLength(text, "utf8");
+            };
+            const writeHeader = (names: string[]) => {
+              header = names;
+              if (format === "csv" && includeHeader !== false) {
+                write(formatCsvLine(names, csvOptions));
+              }
+            };
+            // A CSV file has one header, so rows of another shape cannot follow
+            const checkRecordsets = () => {
+              if (format === "csv" && recordsetCount > 1) {
+                throw new Error(
+                  "CSV export needs a single result set, but the query returned more",
+                );
+              }
+            };
+
+            for await (const row of streamRows(request, sqlText, {
+              onRecordset: (recordsetColumns) => {
+                recordsetCount++;
+                columns = recordsetColumns;
+                // The header follows the first result set, even when it is empty
+                if (!header) {
+                  writeHeader(
+                    Object.values(recordsetColumns)
+                      .sort((a, b) => a.index - b.index)
+                      .map((column) => column.name),
+                  );
+                }
+              },
+            })) {
+              if (row === undefined) break;
+              checkRecordsets();
+
+              // Leaving the loop cancels the rest of the query
+              if (maxRows != null && rowCount >= (maxRows as number)) {
+                truncated = true;
+                break;
+              }
+
+              const serializedRow = serializeRow(row, columns, serialization);
+              let text: string;
+              if (format === "csv") {
+                if (!header) {
+                  writeHeader(Object.keys(serializedRow));
+                }
+                text = formatCsvLine(
+                  header!.map((name) => serializedRow[name]),
+                  csvOptions,
+                );
+              } else if (format === "ndjson") {
+                text = `${JSON.stringify(serializedRow)}\n`;
+              } else {
+                text = `${rowCount === 0 ? "[\n" : ",\n"}${JSON.stringify(serializedRow)}`;
+              }
+
+              // Leave room for the closing bracket of a JSON array
+              if (byteSize + Buffer.byteLength(text, "utf8") + 3 > maxBytes) {
+                truncated = true;
+                break;
+              }
+              write(text);
+              rowCount++;
+            }
+            checkRecordsets();
+
+            if (format === "json") {
+              write(rowCount === 0 ? "[]\n" : "\n]\n");
+            }
+
+            return { text: parts.join(""), rowCount, truncated };
+          },
+          // Nothing is emitted until the file is complete, but a failed
+          // write may have partly succeeded, so only reads retry by default
+          {
+            enabled: violation === null || Boolean(retryOnTransientErrors),
+          },
+        );
+
+        const data = Buffer.from(result.text, "utf8");
+        const content = gzip ? zlib.gzipSync(data) : data;
+
+        await events.emit({
+          fileName:
+            (fileName as string) || `export.${format}${gzip ? ".gz" : ""}`,
+          contentType: gzip ? "application/gzip" : exportContentTypes[format],
+          encoding: gzip ? "base64" : "utf8",
+          content: gzip ? content.toString("base64") : result.text,
+          rowCount: result.rowCount,
+          byteSize: content.length,
+          uncompressedByteSize: data.length,
+          truncated: result.truncated,
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Export File",
+      description: "The exported file with its size and row count",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          fileName: {
+            type: "string",
+            description: "Name of the file",
+          },
+          contentType: {
+            type: "string",
+            description: "MIME type of the file",
+          },
+          encoding: {
+            type: "string",
+            description:
+              "Encoding of content: 'utf8' for text, 'base64' for gzip-compressed files",
+          },
+          content: {
+            type: "string",
+            description: "File content",
+          },
+          rowCount: {
+            type: "number",
+            description: "Number of rows written",
+          },
+          byteSize: {
+            type: "number",
+            description: "Size of the file in bytes (compressed when gzipped)",
+          },
+          uncompressedByteSize: {
+            type: "number",
+            description: "Size of the file in bytes before compression",
+          },
+          truncated: {
+            type: "boolean",
+            description:
+              "Whether rows were left unexported because of Max Rows or Max Size",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: [
+          "fileName",
+          "contentType",
+          "encoding",
+          "content",
+          "rowCount",
+          "byteSize",
+          "uncompressedByteSize",
+          "truncated",
+        ],
+      },
+    },
+  },
+};
@@ -1,5 +1,7 @@
 import { AppBlock, events } from "@slflows/sdk/v1";
-import { getPool } from "../utils/pool.ts";
+import { PoolRoute } from "../utils/pool.ts";
+import { withRetry } from "../utils/retry.ts";
+import { getTableColumns } from "../utils/catalog.ts";
 
 export const getTableInfo: AppBlock = {
   name: "Get Table Info",
@@ -21,15 +23,46 @@ export const getTableInfo: AppBlock = {
           type: "string",
           required: true,
         },
+        target: {
+          name: "Target",
+          description:
+            "Run against the primary or a read replica (requires Read Replica Routing in the app configuration)",
+          type: {
+            type: "string",
+            enum: ["primary", "replica"],
+          },
+          required: false,
+          default: "primary",
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
       },
       async onEvent(input) {
-        const { schema: schemaName, table } = input.event.inputConfig;
+        const {
+          schema: schemaName,
+          table,
+          target,
+          database,
+        } = input.event.inputConfig;
         const actualSchema = schemaName || "dbo";
 
-        const pool = await getPool(input.app.config);
-
-        // Get table information
-        const tableQuery = `
+        const {
+          result: { tableInfo, columns, constraintsResult, indexesResult },
+          attempts,
+        } = await withRetry(
+          input.app.config,
+          {
+            route: target as PoolRoute,
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            // Get table information
+            const tableQuery = `
           SELECT
             s.name AS table_schema,
             t.name AS table_name,
@@ -42,45 +75,22 @@ export const getTableInfo: AppBlock = {
           WHERE s.name = @p1 AND t.name = @p2
         `;
 
-        const tableRequest = pool.request();
-        tableRequest.input("p1", actualSchema);
-        tableRequest.input("p2", table);
-        const tableResult = await tableRequest.query(tableQuery);
+            const tableRequest = pool.request();
+            tableRequest.input("p1", actualSchema);
+            tableRequest.input("p2", table);
+            const tableResult = await tableRequest.query(tableQuery);
 
-        if (tableResult.recordset.length === 0) {
-          throw new Error(`Table ${actualSchema}.${table} not found`);
-        }
+            if (tableResult.recordset.length === 0) {
+              throw new Error(`Table ${actualSchema}.${table} not found`);
+            }
 
-        const tableInfo = tableResult.recordset[0];
+            const tableInfo = tableResult.recordset[0];
 
-        // Get column information
-        const columnsQuery = `
-          SELECT
-            c.name AS column_name,
-            TYPE_NAME(c.user_type_id) AS data_type,
-            CASE WHEN c.is_nullable = 1 THEN 'YES' ELSE 'NO' END AS is_nullable,
-            dc.definition AS column_default,
-            c.max_length AS character_maximum_length,
-            c.precision AS numeric_precision,
-            c.scale AS numeric_scale,
-            CAST(ep.value AS NVARCHAR(MAX)) AS column_comment
-          FROM sys.columns c
-          INNER JOIN sys.tables t ON c.object_id = t.object_id
-          INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
-          LEFT JOIN sys.default_constraints dc ON c.default_object_id = dc.object_id
-          LEFT JOIN sys.extended_properties ep
-            ON ep.major_id = c.object_id AND ep.minor_id = c.column_id AND ep.name = 'MS_Description'
-          WHERE s.name = @p1 AND t.name = @p2
-          ORDER BY c.column_id
-        `;
+            // Get column information
+            const columns = await getTableColumns(pool, actualSchema, table);
 
-        const columnsRequest = pool.request();
-        columnsRequest.input("p1", actualSchema);
-        columnsRequest.input("p2", table);
-        const columnsResult = await columnsRequest.query(columnsQuery);
-
-        // Get constraints (primary keys, unique constraints)
-        const constraintsQuery = `
+            // Get constraints (primary keys, unique constraints)
+            const constraintsQuery = `
           SELECT
             kc.name AS constraint_name,
             kc.type_desc AS constraint_type,
@@ -117,14 +127,14 @@ export const getTableInfo: AppBlock = {
           GROUP BY fk.name, rs.name, rt.name
         `;
 
-        const constraintsRequest = pool.request();
-        constraintsRequest.input("p1", actualSchema);
-        constraintsRequest.input("p2", table);
-        const constraintsResult =
-          await constraintsRequest.query(constraintsQuery);
+            const constraintsRequest = pool.request();
+            constraintsRequest.input("p1", actualSchema);
+            constraintsRequest.input("p2", table);
+            const constraintsResult =
+              await constraintsRequest.query(constraintsQuery);
 
-        // Get indexes
-        const indexesQuery = `
+            // Get indexes
+            const indexesQuery = `
           SELECT
             i.name AS index_name,
             i.is_unique,
@@ -139,25 +149,29 @@ export const getTableInfo: AppBlock = {
           GROUP BY i.name, i.is_unique, i.is_primary_key
         `;
 
-        const indexesRequest = pool.request();
-        indexesRequest.input("p1", actualSchema);
-        indexesRequest.input("p2", table);
-        const indexesResult = await indexesRequest.query(indexesQuery);
+            const indexesRequest = pool.request();
+            indexesRequest.input("p1", actualSchema);
+            indexesRequest.input("p2", table);
+            const indexesResult = await indexesRequest.query(indexesQuery);
+
+            return { tableInfo, columns, constraintsResult, indexesResult };
+          },
+        );
 
         await events.emit({
           schema: tableInfo.table_schema,
           tableName: tableInfo.table_name,
           tableType: tableInfo.table_type,
           tableComment: tableInfo.table_comment,
-          columns: columnsResult.recordset.map((col: any) => ({
-            name: col.column_name,
-            dataType: col.data_type,
-            nullable: col.is_nullable === "YES",
-            defaultValue: col.column_default,
-            maxLength: col.character_maximum_length,
-            numericPrecision: col.numeric_precision,
-            numericScale: col.numeric_scale,
-            comment: col.column_comment,
+          columns: columns.map((col) => ({
+            name: col.name,
+            dataType: col.dataType,
+            nullable: col.nullable,
+            defaultValue: col.defaultValue,
+            maxLength: col.maxLength,
+            numericPrecision: col.numericPrecision,
+            numericScale: col.numericScale,
+            comment: col.comment,
           })),
           constraints: constraintsResult.recordset.map((con: any) => ({
             name: con.constraint_name,
@@ -173,6 +187,7 @@ export const getTableInfo: AppBlock = {
             isPrimary: idx.is_primary,
             columns: idx.columns,
           })),
+          attempts,
         });
       },
     },
@@ -303,6 +318,11 @@ export const getTableInfo: AppBlock = {
               },
             },
           },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
         },
         required: [
           "schema",
@@ -0,0 +1,529 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { parseTableName, sanitizeTableName } from "../utils/identifiers.ts";
+import { ColumnInfo, getTableColumns } from "../utils/catalog.ts";
+import { BulkChunkResult, bulkLoad } from "../utils/bulk.ts";
+import {
+  coerceValue,
+  importFormats,
+  parseCsv,
+  parseNdjson,
+} from "../utils/import.ts";
+
+// Rejected rows listed in the output; the count covers all of them
+const MAX_REPORTED_REJECTIONS = 100;
+
+interface SourceRecord {
+  line: number;
+  // Values by source field, or the reason the record could not be read
+  values?: Record<string, any>;
+  error?: string;
+}
+
+interface RejectedRow {
+  row: number;
+  line: number;
+  reason: string;
+}
+
+interface FieldMapping {
+  field: string;
+  column: ColumnInfo;
+}
+
+/**
+ * Matches source fields to table columns, by the configured mapping or else
+ * by name (case-insensitive)
+ */
+function mapFields(
+  fields: string[],
+  tableColumns: ColumnInfo[],
+  tableName: string,
+  columnMapping: Record<string, string | null>,
+  ignoreUnknownFields: boolean,
+): FieldMapping[] {
+  const mappings: FieldMapping[] = [];
+
+  for (const field of fields) {
+    const target = field in columnMapping ? columnMapping[field] : field;
+    // A mapping to null or "" skips the field
+    if (!target) continue;
+
+    const column = tableColumns.find(
+      (col) => col.name.toLowerCase() === target.toLowerCase(),
+    );
+    if (!column) {
+      if (ignoreUnknownFields) continue;
+      throw new Error(
+        `Field ${field} does not match a column of table ${tableName} (map it with Column Mapping or enable Ignore Unknown Fields)`,
+      );
+    }
+    if (column.isComputed) {
+      throw new Error(`Field ${field} maps to computed column ${column.name}`);
+    }
+    const duplicate = mappings.find((mapping) => mapping.column === column);
+    if (duplicate) {
+      throw new Error(
+        `Fields ${duplicate.field} and ${field} both map to column ${column.name}`,
+      );
+    }
+    mappings.push({ field, column });
+  }
+
+  if (mappings.length === 0) {
+    throw new Error(`No input field matches a column of table ${tableName}`);
+  }
+  return mappings;
+}
+
+export const importData: AppBlock = {
+  name: "Import Data",
+  description:
+    "Parses CSV or NDJSON data, validates it against a table's columns and bulk loads the valid rows",
+  category: "Bulk Operations",
+
+  inputs: {
+    default: {
+      config: {
+        table: {
+          name: "Table Name",
+          description:
+            "Target table name (optionally with schema, e.g., 'dbo.users')",
+          type: "string",
+          required: true,
+        },
+        data: {
+          name: "Data",
+          description: "CSV or NDJSON text to import",
+          type: "string",
+          required: true,
+        },
+        format: {
+          name: "Format",
+          description: "'csv' or 'ndjson' (one JSON object per line)",
+          type: {
+            type: "string",
+            enum: [...importFormats],
+          },
+          required: false,
+          default: "csv",
+        },
+        delimiter: {
+          name: "CSV Delimiter",
+          description:
+            "Character separating CSV fields (e.g. ',', ';' or '\\t')",
+          type: "string",
+          required: false,
+          default: ",",
+        },
+        hasHeader: {
+          name: "CSV Header",
+          description: "Whether the first CSV line holds the field names",
+          type: "boolean",
+          required: false,
+          default: true,
+        },
+        fieldNames: {
+          name: "CSV Field Names",
+          description:
+            "Names of the CSV fields in order, for data without a header line",
+          type: {
+            type: "array",
+            items: {
+              type: "string",
+            },
+          },
+          required: false,
+        },
+        nullValue: {
+          name: "CSV Null Value",
+          description:
+            "Unquoted CSV text read as NULL (e.g. '' or 'NULL'); a quoted value is always text",
+          type: "string",
+          required: false,
+          default: "",
+        },
+        columnMapping: {
+          name: "Column Mapping",
+          description:
+            "Map of input field names to table column names (e.g. { 'Customer Name': 'name' }). Map a field to null to skip it. Other fields load into the column of the same name",
+          type: {
+            type: "object",
+            additionalProperties: true,
+          },
+          required: false,
+        },
+        ignoreUnknownFields: {
+          name: "Ignore Unknown Fields",
+          description:
+            "Skip input fields that match no column instead of failing",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        maxRejectedRows: {
+          name: "Max Rejected Rows",
+          description:
+            "Fail without loading anything when more rows than this are rejected (leave empty to load the valid rows regardless)",
+          type: "number",
+          required: false,
+        },
+        chunkSize: {
+          name: "Chunk Size",
+          description: "Number of rows sent per bulk-copy chunk",
+          type: "number",
+          required: false,
+          default: 5000,
+        },
+        useTransaction: {
+          name: "Use Transaction",
+          description:
+            "Load all chunks in one transaction, so a failure loads nothing",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        tableLock: {
+          name: "Table Lock",
+          description:
+            "Take a bulk update lock on the table for the duration of each chunk",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        keepNulls: {
+          name: "Keep Nulls",
+          description:
+            "Insert NULL values as-is instead of applying column defaults",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        checkConstraints: {
+          name: "Check Constraints",
+          description:
+            "Enforce CHECK and FOREIGN KEY constraints while loading",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        fireTriggers: {
+          name: "Fire Triggers",
+          description: "Run INSERT triggers on the table",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry after deadlocks, throttling or dropped connections (without Use Transaction, only loads that fit in one chunk are retried)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const {
+          table,
+          data,
+          format,
+          delimiter,
+          hasHeader,
+          fieldNames,
+          nullValue,
+          columnMapping,
+          ignoreUnknownFields,
+          maxRejectedRows,
+          chunkSize,
+          useTransaction,
+          tableLock,
+          keepNulls,
+          checkConstraints,
+          fireTriggers,
+          retryOnTransientErrors,
+          database,
+        } = input.event.inputConfig;
+        const tableName = table as string;
+        const effectiveChunkSize = (chunkSize as number) || 5000;
+
+        // Parse the input into records of values by field name
+        let fields: string[];
+        let records: SourceRecord[];
+        if ((format as string) === "ndjson") {
+          const parsed = parseNdjson(data as string);
+          const fieldSet = new Set<string>();
+          for (const entry of parsed) {
+            Object.keys(entry.value || {}).forEach((key) => fieldSet.add(key));
+          }
+          fields = [...fieldSet];
+          records = parsed.map(({ line, value, error }) => ({
+            line,
+            values: value,
+            error,
+          }));
+        } else {
+          const parsed = parseCsv(
+            data as string,
+            (delimiter as string) || ",",
+            (nullValue as string | undefined) ?? "",
+          );
+          if (hasHeader !== false) {
+            const header = parsed.shift();
+            fields = (header?.values || []).map((name) => name ?? "");
+          } else {
+            fields = (fieldNames as string[]) || [];
+          }
+          if (fields.length === 0) {
+            throw new Error(
+              "CSV data without a header line requires CSV Field Names",
+            );
+          }
+          records = parsed.map(({ line, values }) => {
+            if (values.length !== fields.length) {
+              return {
+                line,
+                error: `Expected ${fields.length} fields, found ${values.length}`,
+              };
+            }
+            const byField: Record<string, any> = {};
+            fields.forEach((field, i) => {
+              byField[field] = values[i];
+            });
+            return { line, values: byField };
+          });
+        }
+
+        // Loading several chunks outside a transaction cannot be repeated safely
+        let partialLoad = false;
+
+        const { result, attempts } = await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            const { schema, table: name } = parseTableName(tableName);
+            const tableColumns = await getTableColumns(pool, schema, name);
+            if (tableColumns.length === 0) {
+              throw new Error(`Table ${schema}.${name} not found`);
+            }
+
+            const mappings = mapFields(
+              fields,
+              tableColumns,
+              tableName,
+              (columnMapping as Record<string, string | null>) || {},
+              Boolean(ignoreUnknownFields),
+            );
+
+            // Coerce every value with the column's type and collect what does not fit
+            const rows: any[][] = [];
+            const rejected: RejectedRow[] = [];
+            records.forEach((record, index) => {
+              const reasons: string[] = record.error ? [record.error] : [];
+              const row = mappings.map(({ field, column }) => {
+                if (!record.values) return null;
+                try {
+                  const value = coerceValue(record.values[field], column);
+                  const defaultApplies =
+                    !keepNulls && column.defaultValue !== null;
+                  if (
+                    value === null &&
+                    !column.nullable &&
+                    !column.isIdentity &&
+                    !defaultApplies
+                  ) {
+                    throw new Error("NULL is not allowed");
+                  }
+                  return value;
+                } catch (error: any) {
+                  reasons.push(`Column ${column.name}: ${error.message}`);
+                  return null;
+                }
+              });
+
+              if (reasons.length > 0) {
+                rejected.push({
+                  row: index + 1,
+                  line: record.line,
+                  reason: reasons.join("; "),
+                });
+              } else {
+                rows.push(row);
+              }
+            });
+
+            if (
+              maxRejectedRows != null &&
+              rejected.length > (maxRejectedRows as number)
+            ) {
+              throw new Error(
+                `${rejected.length} rows were rejected, more than the allowed ${maxRejectedRows}; nothing was loaded. First rejection at line ${rejected[0].line}: ${rejected[0].reason}`,
+              );
+            }
+
+            const columnNames = mappings.map(({ column }) => column.name);
+            const bulkOptions = {
+              chunkSize: effectiveChunkSize,
+              tableLock: tableLock as boolean,
+              keepNulls: keepNulls as boolean,
+              checkConstraints: checkConstraints as boolean,
+              fireTriggers: fireTriggers as boolean,
+            };
+
+            let loaded = { rowCount: 0, chunks: [] as BulkChunkResult[] };
+            if (rows.length > 0) {
+              if (useTransaction) {
+                const transaction = new sql.Transaction(pool);
+                await transaction.begin();
+                try {
+                  loaded = await bulkLoad(
+                    transaction,
+                    sanitizeTableName(tableName),
+                    tableColumns,
+                    columnNames,
+                    rows,
+                    bulkOptions,
+                  );
+                  await transaction.commit();
+                } catch (error: any) {
+                  await transaction.rollback().catch(() => {});
+                  throw new Error(
+                    `Import failed, transaction rolled back: ${error.message}`,
+                    { cause: error },
+                  );
+                }
+              } else {
+                partialLoad = rows.length > effectiveChunkSize;
+                loaded = await bulkLoad(
+                  pool,
+                  sanitizeTableName(tableName),
+                  tableColumns,
+                  columnNames,
+                  rows,
+                  bulkOptions,
+                );
+              }
+            }
+
+            return { columnNames, rejected, loaded };
+          },
+          {
+            enabled: Boolean(retryOnTransientErrors),
+            canRetry: () => !partialLoad,
+          },
+        );
+
+        await events.emit({
+          table: tableName,
+          columns: result.columnNames,
+          rowCount: records.length,
+          loadedRowCount: result.loaded.rowCount,
+          rejectedRowCount: result.rejected.length,
+          rejectedRows: result.rejected.slice(0, MAX_REPORTED_REJECTIONS),
+          chunks: result.loaded.chunks,
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Import Result",
+      description: "Counts of loaded and rejected rows",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          table: {
+            type: "string",
+            description: "The table the rows were loaded into",
+          },
+          columns: {
+            type: "array",
+            description: "Table columns that received input fields",
+            items: {
+              type: "string",
+            },
+          },
+          rowCount: {
+            type: "number",
+            description: "Number of data rows in the input",
+          },
+          loadedRowCount: {
+            type: "number",
+            description: "Number of rows loaded into the table",
+          },
+          rejectedRowCount: {
+            type: "number",
+            description: "Number of rows that failed validation",
+          },
+          rejectedRows: {
+            type: "array",
+            description: `Rejected rows with the reasons, up to the first ${MAX_REPORTED_REJECTIONS}`,
+            items: {
+              type: "object",
+              properties: {
+                row: {
+                  type: "number",
+                  description: "Position of the data row starting from 1",
+                },
+                line: {
+                  type: "number",
+                  description: "Input line the row starts on",
+                },
+                reason: {
+                  type: "string",
+                  description: "Why the row was rejected",
+                },
+              },
+              required: ["row", "line", "reason"],
+            },
+          },
+          chunks: {
+            type: "array",
+            description: "Progress of each chunk that was sent to the server",
+            items: {
+              type: "object",
+              properties: {
+                chunkNumber: {
+                  type: "number",
+                  description: "Sequential chunk number starting from 0",
+                },
+                rowCount: {
+                  type: "number",
+                  description: "Number of rows inserted by this chunk",
+                },
+              },
+            },
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: [
+          "table",
+          "columns",
+          "rowCount",
+          "loadedRowCount",
+          "rejectedRowCount",
+          "rejectedRows",
+          "chunks",
+        ],
+      },
+    },
+  },
+};
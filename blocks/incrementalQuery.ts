@@ -0,0 +1,342 @@
+import { AppBlock, events, kv } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { streamRows } from "../utils/stream.ts";
+import { bindParameters } from "../utils/parameters.ts";
+import {
+  formatPreciseTimestamp,
+  getSerializationOptions,
+  serializeRow,
+} from "../utils/serialize.ts";
+
+const WATERMARK_KEY = "watermark";
+
+// ISO 8601 UTC timestamps, with up to the 7 fractional digits of datetime2
+const ISO_TIMESTAMP =
+  /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,7}))?Z$/;
+
+/**
+ * Converts a watermark column value into a form that can be stored and bound
+ * again. Dates keep the sub-millisecond digits of datetime2, datetimeoffset
+ * and time values, which the driver carries beside the Date, so rows at the
+ * last watermark are not fetched again.
+ */
+function toStoredWatermark(value: any): any {
+  if (value instanceof Date) {
+    return formatPreciseTimestamp(value);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  return value;
+}
+
+/**
+ * Converts a stored watermark into the value bound for a declared type. A
+ * timestamp with more than millisecond precision becomes a Date carrying the
+ * remaining digits, which the driver adds when sending datetime2 values.
+ */
+function fromStoredWatermark(value: any): any {
+  const match = typeof value === "string" ? ISO_TIMESTAMP.exec(value) : null;
+  if (!match || !match[2] || match[2].length <= 3) {
+    return value;
+  }
+  const date = new Date(`${match[1]}.${match[2].slice(0, 3)}Z`);
+  (date as any).nanosecondDelta = Number(
+    `0.000${match[2].slice(3).padEnd(4, "0")}`,
+  );
+  return date;
+}
+
+/**
+ * Orders two stored watermark values. Integers (including serialized BIGINT
+ * identities) compare numerically, ISO dates by their padded fractional
+ * seconds and other strings lexically.
+ */
+function compareWatermarks(a: any, b: any): number {
+  const isInteger = (value: any) =>
+    Number.isInteger(value) ||
+    (typeof value === "string" && /^-?\d+$/.test(value));
+  const isNumeric = (value: any) =>
+    typeof value === "number" ||
+    (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value));
+  const padTimestamp = (value: any) => {
+    const match = ISO_TIMESTAMP.exec(String(value));
+    return match ? `${match[1]}.${(match[2] ?? "").padEnd(7, "0")}Z` : value;
+  };
+
+  if (isInteger(a) && isInteger(b)) {
+    const diff = BigInt(a) - BigInt(b);
+    return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+  }
+  if (isNumeric(a) && isNumeric(b)) {
+    return Number(a) - Number(b);
+  }
+  const [left, right] = [String(padTimestamp(a)), String(padTimestamp(b))];
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+export const incrementalQuery: AppBlock = {
+  name: "Incremental Query",
+  description:
+    "Runs a query that only returns rows newer than the last seen watermark value and emits them in batches",
+  category: "Change Data",
+
+  config: {
+    query: {
+      name: "SQL Query",
+      description:
+        "SQL query filtering on the @watermark parameter, e.g. SELECT * FROM orders WHERE @watermark IS NULL OR updated_at > @watermark ORDER BY updated_at",
+      type: "string",
+      required: true,
+    },
+    watermarkColumn: {
+      name: "Watermark Column",
+      description:
+        "Result column whose highest value is remembered for the next run (e.g. updated_at or id)",
+      type: "string",
+      required: true,
+    },
+    watermarkType: {
+      name: "Watermark Type",
+      description:
+        "SQL type used to bind @watermark (e.g. 'datetime2' or 'bigint'). Inferred when not set",
+      type: "string",
+      required: false,
+    },
+    initialWatermark: {
+      name: "Initial Watermark",
+      description:
+        "Watermark value used before anything has been stored (NULL when not set)",
+      type: "string",
+      required: false,
+    },
+    batchSize: {
+      name: "Batch Size",
+      description: "Number of rows per batch event",
+      type: "number",
+      required: false,
+      default: 100,
+    },
+    database: {
+      name: "Database",
+      description:
+        "Database to use instead of the one in the app configuration (same server and credentials)",
+      type: "string",
+      required: false,
+    },
+  },
+
+  inputs: {
+    default: {
+      name: "Run",
+      description: "Fetches rows newer than the stored watermark",
+      config: {
+        parameters: {
+          name: "Parameters",
+          description:
+            "Additional parameters for the query. Use { value, type } to declare the SQL type",
+          type: {
+            type: "object",
+            additionalProperties: true,
+          },
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const { parameters } = input.event.inputConfig;
+        const {
+          query,
+          watermarkColumn,
+          watermarkType,
+          initialWatermark,
+          batchSize: configBatchSize,
+          database,
+        } = input.block.config;
+        const batchSize = (configBatchSize as number) || 100;
+        const column = watermarkColumn as string;
+
+        const stored = await kv.block.get(WATERMARK_KEY);
+        const previousWatermark =
+          stored?.value !== undefined
+            ? stored.value
+            : ((initialWatermark as string | undefined) ?? null);
+
+        const serialization = getSerializationOptions(input.app.config);
+        let watermark = previousWatermark;
+        let batchNumber = 0;
+
+        await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async (pool, attempt) => {
+            const request = pool.request();
+
+            bindParameters(request, {
+              ...((parameters as Record<string, any>) || {}),
+              watermark: watermarkType
+                ? {
+                    value: fromStoredWatermark(previousWatermark),
+                    type: watermarkType as string,
+                  }
+                : previousWatermark,
+            });
+
+            watermark = previousWatermark;
+            let currentBatch: any[] = [];
+
+            let columns: sql.IColumnMetadata | undefined;
+
+            for await (const row of streamRows(request, query as string, {
+              onRecordset: (recordsetColumns) => {
+                columns = recordsetColumns;
+              },
+            })) {
+              if (row === undefined) break;
+
+              if (!(column in row)) {
+                throw new Error(
+                  `Watermark column ${column} is not present in the query results`,
+                );
+              }
+
+              const value = toStoredWatermark(row[column]);
+              if (
+                value !== null &&
+                (watermark === null || compareWatermarks(value, watermark) > 0)
+              ) {
+                watermark = value;
+              }
+
+              currentBatch.push(serializeRow(row, columns, serialization));
+
+              if (currentBatch.length >= batchSize) {
+                await events.emit({
+                  batchNumber,
+                  rows: currentBatch,
+                  rowCount: currentBatch.length,
+                  hasMore: true,
+                  watermark,
+                  attempts: attempt,
+                });
+                batchNumber++;
+                currentBatch = [];
+              }
+            }
+
+            // Emit any remaining rows
+            if (currentBatch.length > 0) {
+              await events.emit({
+                batchNumber,
+                rows: currentBatch,
+                rowCount: currentBatch.length,
+                hasMore: false,
+                watermark,
+                attempts: attempt,
+              });
+            }
+          },
+          // Once a batch is emitted, a retry would emit its rows again
+          { canRetry: () => batchNumber === 0 },
+        );
+
+        // Only advance once every row has been emitted
+        if (watermark !== previousWatermark) {
+          await kv.block.set({ key: WATERMARK_KEY, value: watermark });
+        }
+      },
+    },
+    setWatermark: {
+      name: "Set Watermark",
+      description:
+        "Overrides the stored watermark, or resets it to the initial watermark when no value is given",
+      config: {
+        value: {
+          name: "Watermark Value",
+          description:
+            "New watermark value. Leave empty to reset to the initial watermark",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const { value } = input.event.inputConfig;
+        const reset = value === undefined || value === null || value === "";
+
+        if (reset) {
+          await kv.block.delete([WATERMARK_KEY]);
+        } else {
+          await kv.block.set({ key: WATERMARK_KEY, value });
+        }
+
+        await events.emit(
+          {
+            watermark: reset
+              ? ((input.block.config.initialWatermark as string | undefined) ??
+                null)
+              : value,
+          },
+          { outputKey: "watermarkUpdated" },
+        );
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Batch",
+      description: "Emitted for each batch of new rows",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          batchNumber: {
+            type: "number",
+            description: "Sequential batch number starting from 0",
+          },
+          rows: {
+            type: "array",
+            description: "Array of rows in this batch",
+            items: {
+              type: "object",
+            },
+          },
+          rowCount: {
+            type: "number",
+            description: "Number of rows in this batch",
+          },
+          hasMore: {
+            type: "boolean",
+            description: "Whether more batches are expected",
+          },
+          watermark: {
+            description: "Highest watermark value seen so far",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: ["batchNumber", "rows", "rowCount", "hasMore"],
+      },
+    },
+    watermarkUpdated: {
+      name: "Watermark Updated",
+      description: "Emitted after the watermark was set or reset",
+      possiblePrimaryParents: ["setWatermark"],
+      type: {
+        type: "object",
+        properties: {
+          watermark: {
+            description: "The watermark the next run will start from",
+          },
+        },
+        required: ["watermark"],
+      },
+    },
+  },
+};
@@ -9,6 +9,16 @@ import { executeCommand } from "./executeCommand";
 import { bulkInsert } from "./bulkInsert";
 import { streamQuery } from "./streamQuery";
 import { getTableInfo } from "./getTableInfo";
+import { executeTransaction } from "./executeTransaction";
+import { executeProcedure } from "./executeProcedure";
+import { upsertRows } from "./upsertRows";
+import { pollChangeTracking } from "./pollChangeTracking";
+import { consumeCdcChanges } from "./consumeCdcChanges";
+import { incrementalQuery } from "./incrementalQuery";
+import { runScript } from "./runScript";
+import { applyMigrations } from "./applyMigrations";
+import { exportQuery } from "./exportQuery";
+import { importData } from "./importData";
 
 /**
  * Dictionary of all available blocks
@@ -19,7 +29,33 @@ export const blocks = {
   bulkInsert,
   streamQuery,
   getTableInfo,
+  executeTransaction,
+  executeProcedure,
+  upsertRows,
+  pollChangeTracking,
+  consumeCdcChanges,
+  incrementalQuery,
+  runScript,
+  applyMigrations,
+  exportQuery,
+  importData,
 } as const;
 
 // Named exports for individual blocks
-export { executeQuery, executeCommand, bulkInsert, streamQuery, getTableInfo };
+export {
+  executeQuery,
+  executeCommand,
+  bulkInsert,
+  streamQuery,
+  getTableInfo,
+  executeTransaction,
+  executeProcedure,
+  upsertRows,
+  pollChangeTracking,
+  consumeCdcChanges,
+  incrementalQuery,
+  runScript,
+  applyMigrations,
+  exportQuery,
+  importData,
+};
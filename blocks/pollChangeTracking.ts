@@ -0,0 +1,347 @@
+import { AppBlock, events, kv } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { streamRows } from "../utils/stream.ts";
+import {
+  parseTableName,
+  sanitizeIdentifier,
+  sanitizeTableName,
+} from "../utils/identifiers.ts";
+import { getPrimaryKeyColumns } from "../utils/catalog.ts";
+import { getSerializationOptions, serializeValue } from "../utils/serialize.ts";
+
+const VERSION_KEY = "lastSyncVersion";
+
+const operations: Record<string, string> = {
+  I: "insert",
+  U: "update",
+  D: "delete",
+};
+
+/**
+ * Emits all changes made to the configured table since the last stored
+ * Change Tracking version, then advances the stored version.
+ */
+async function pollChanges(appConfig: any, blockConfig: any): Promise<void> {
+  const tableName = blockConfig.table as string;
+  const batchSize = (blockConfig.batchSize as number) || 100;
+
+  const serialization = getSerializationOptions(appConfig);
+
+  // Events cannot be taken back, so only retry until the first one is emitted
+  let emitted = false;
+
+  await withRetry(
+    appConfig,
+    {
+      database: blockConfig.database as string | undefined,
+    },
+    async (pool, attempt) => {
+      const { schema, table } = parseTableName(tableName);
+      const safeTableName = sanitizeTableName(tableName);
+
+      const versionResult = await pool
+        .request()
+        .input("tableName", sql.NVarChar, `${schema}.${table}`)
+        .query(
+          `SELECT
+            CHANGE_TRACKING_CURRENT_VERSION() AS current_version,
+            CHANGE_TRACKING_MIN_VALID_VERSION(OBJECT_ID(@tableName)) AS min_valid_version`,
+        );
+      const {
+        current_version: currentVersion,
+        min_valid_version: minValidVersion,
+      } = versionResult.recordset[0];
+
+      if (currentVersion === null || minValidVersion === null) {
+        throw new Error(
+          `Change tracking is not enabled for table ${tableName}`,
+        );
+      }
+
+      const stored = await kv.block.get(VERSION_KEY);
+      const lastVersion = stored?.value as string | undefined;
+
+      // Start tracking from the current version on the first run
+      if (lastVersion === undefined) {
+        await kv.block.set({ key: VERSION_KEY, value: String(currentVersion) });
+        return;
+      }
+
+      // Changes older than the retention period are gone, so consumers must resync
+      if (BigInt(lastVersion) < BigInt(minValidVersion)) {
+        emitted = true;
+        await events.emit(
+          {
+            table: tableName,
+            lastSyncVersion: lastVersion,
+            minValidVersion: String(minValidVersion),
+            currentVersion: String(currentVersion),
+          },
+          { outputKey: "resyncRequired" },
+        );
+        await kv.block.set({ key: VERSION_KEY, value: String(currentVersion) });
+        return;
+      }
+
+      const keyColumns = await getPrimaryKeyColumns(pool, schema, table);
+      if (keyColumns.length === 0) {
+        throw new Error(`Table ${tableName} has no primary key`);
+      }
+
+      // Key columns are aliased so they do not collide with the joined row's columns
+      const changesQuery = `
+    SELECT
+      ct.SYS_CHANGE_OPERATION AS __operation,
+      ct.SYS_CHANGE_VERSION AS __version,
+      ${keyColumns.map((col, i) => `ct.${sanitizeIdentifier(col)} AS [__key${i}]`).join(",\n      ")},
+      t.*
+    FROM CHANGETABLE(CHANGES ${safeTableName}, @lastVersion) AS ct
+    LEFT JOIN ${safeTableName} AS t
+      ON ${keyColumns.map((col) => `t.${sanitizeIdentifier(col)} = ct.${sanitizeIdentifier(col)}`).join(" AND ")}
+    WHERE ct.SYS_CHANGE_VERSION <= @currentVersion
+    ORDER BY ct.SYS_CHANGE_VERSION
+  `;
+
+      const request = pool.request();
+      request.input("lastVersion", sql.BigInt, lastVersion);
+      request.input("currentVersion", sql.BigInt, currentVersion);
+
+      let currentBatch: any[] = [];
+
+      const emitBatch = async (hasMore: boolean) => {
+        emitted = true;
+        await events.emit({
+          table: tableName,
+          changes: currentBatch,
+          changeCount: currentBatch.length,
+          fromVersion: lastVersion,
+          toVersion: String(currentVersion),
+          hasMore,
+          attempts: attempt,
+        });
+        currentBatch = [];
+      };
+
+      let columns: sql.IColumnMetadata | undefined;
+
+      for await (const row of streamRows(request, changesQuery, {
+        onRecordset: (recordsetColumns) => {
+          columns = recordsetColumns;
+        },
+      })) {
+        if (row === undefined) break;
+
+        // A full batch is held back until another change follows, so hasMore is exact
+        if (currentBatch.length >= batchSize) {
+          await emitBatch(true);
+        }
+
+        const keys: Record<string, any> = {};
+        keyColumns.forEach((col, i) => {
+          keys[col] = serializeValue(
+            row[`__key${i}`],
+            columns?.[`__key${i}`],
+            serialization,
+          );
+        });
+
+        // Rows deleted since the change find no match in the LEFT JOIN
+        let data: Record<string, any> | null = null;
+        const rowExists = keyColumns.some(
+          (col) => row[col] !== null && row[col] !== undefined,
+        );
+        if (row.__operation !== "D" && rowExists) {
+          data = {};
+          for (const [key, value] of Object.entries(row)) {
+            if (key.startsWith("__")) continue;
+            data[key] = serializeValue(value, columns?.[key], serialization);
+          }
+        }
+
+        currentBatch.push({
+          operation: operations[row.__operation] || row.__operation,
+          version: String(row.__version),
+          keys,
+          row: data,
+        });
+      }
+
+      if (currentBatch.length > 0) {
+        await emitBatch(false);
+      }
+
+      // Only advance once every change has been emitted
+      await kv.block.set({ key: VERSION_KEY, value: String(currentVersion) });
+    },
+    { canRetry: () => !emitted },
+  );
+}
+
+export const pollChangeTracking: AppBlock = {
+  name: "Poll Change Tracking",
+  description:
+    "Periodically emits rows inserted, updated or deleted in a table using SQL Server Change Tracking",
+  category: "Change Data",
+
+  config: {
+    table: {
+      name: "Table Name",
+      description:
+        "Table with Change Tracking enabled (optionally with schema, e.g., 'dbo.users')",
+      type: "string",
+      required: true,
+    },
+    batchSize: {
+      name: "Batch Size",
+      description: "Maximum number of changes per emitted event",
+      type: "number",
+      required: false,
+      default: 100,
+    },
+    database: {
+      name: "Database",
+      description:
+        "Database to use instead of the one in the app configuration (same server and credentials)",
+      type: "string",
+      required: false,
+    },
+  },
+
+  inputs: {
+    default: {
+      name: "Poll Now",
+      description: "Checks for changes immediately instead of waiting",
+      config: {},
+      async onEvent(input) {
+        await pollChanges(input.app.config, input.block.config);
+      },
+    },
+  },
+
+  schedules: {
+    poll: {
+      description: "Checks the table for new changes",
+      customizable: true,
+      definition: {
+        type: "frequency",
+        frequency: {
+          interval: 1,
+          unit: "minutes",
+        },
+      },
+      async onTrigger(input) {
+        await pollChanges(input.app.config, input.block.config);
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Changes",
+      description:
+        "Emitted for each batch of changes since the last synced version",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          table: {
+            type: "string",
+            description: "The tracked table name",
+          },
+          changes: {
+            type: "array",
+            description: "Changed rows in version order",
+            items: {
+              type: "object",
+              properties: {
+                operation: {
+                  type: "string",
+                  description: "Change type (insert, update or delete)",
+                },
+                version: {
+                  type: "string",
+                  description: "Change Tracking version of the change",
+                },
+                keys: {
+                  type: "object",
+                  description: "Primary key values of the changed row",
+                },
+                row: {
+                  type: "object",
+                  description:
+                    "Current row data (null for deleted rows or rows deleted since the change)",
+                },
+              },
+              required: ["operation", "version", "keys"],
+            },
+          },
+          changeCount: {
+            type: "number",
+            description: "Number of changes in this batch",
+          },
+          fromVersion: {
+            type: "string",
+            description: "Version the changes were read from (exclusive)",
+          },
+          toVersion: {
+            type: "string",
+            description: "Version the changes were read up to (inclusive)",
+          },
+          hasMore: {
+            type: "boolean",
+            description: "Whether more batches are expected for this poll",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: [
+          "table",
+          "changes",
+          "changeCount",
+          "fromVersion",
+          "toVersion",
+          "hasMore",
+        ],
+      },
+    },
+    resyncRequired: {
+      name: "Resync Required",
+      description:
+        "Emitted when the last synced version is older than the retained change history and a full resync is needed",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          table: {
+            type: "string",
+            description: "The tracked table name",
+          },
+          lastSyncVersion: {
+            type: "string",
+            description: "The version that was last synced",
+          },
+          minValidVersion: {
+            type: "string",
+            description: "The oldest version still available",
+          },
+          currentVersion: {
+            type: "string",
+            description:
+              "The version tracking restarts from after the resync signal",
+          },
+        },
+        required: [
+          "table",
+          "lastSyncVersion",
+          "minValidVersion",
+          "currentVersion",
+        ],
+      },
+    },
+  },
+};
@@ -0,0 +1,254 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import { createPoolConfig } from "../utils/pool.ts";
+import { splitScript, substituteVariables } from "../utils/script.ts";
+import {
+  getSerializationOptions,
+  serializeRecordset,
+} from "../utils/serialize.ts";
+
+interface BatchResult {
+  index: number;
+  line: number;
+  executions: number;
+  rows: any[];
+  rowsAffected: number;
+}
+
+export const runScript: AppBlock = {
+  name: "Run Script",
+  description:
+    "Runs a multi-batch SQL script with GO separators and sqlcmd-style $(Variable) substitution",
+  category: "Basic",
+
+  inputs: {
+    default: {
+      config: {
+        script: {
+          name: "SQL Script",
+          description:
+            "Script to run, with batches separated by GO on its own line (GO n repeats a batch n times)",
+          type: "string",
+          required: true,
+        },
+        variables: {
+          name: "Variables",
+          description:
+            "Map of sqlcmd variable names to values substituted for $(Name) in the script (e.g. { TableName: 'orders' })",
+          type: {
+            type: "object",
+            additionalProperties: true,
+          },
+          required: false,
+        },
+        useTransaction: {
+          name: "Use Transaction",
+          description:
+            "Run every batch in a single transaction that is rolled back if any batch fails",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Rerun the script after deadlocks, throttling or dropped connections (requires Use Transaction)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const {
+          script,
+          variables,
+          useTransaction,
+          retryOnTransientErrors,
+          database,
+        } = input.event.inputConfig;
+
+        const serialization = getSerializationOptions(input.app.config);
+        const batches = splitScript(script as string).map((batch) => ({
+          ...batch,
+          sql: substituteVariables(
+            batch.sql,
+            variables as Record<string, any> | undefined,
+          ),
+        }));
+
+        const { result: results, attempts } = await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async () => {
+            // Every batch runs on one connection of its own, so SET options,
+            // temp tables and USE carry over between batches as in sqlcmd,
+            // and none of it leaks into the shared pool
+            const connection = new sql.ConnectionPool({
+              ...createPoolConfig(
+                input.app.config,
+                "primary",
+                database as string | undefined,
+              ),
+              pool: { max: 1 },
+            });
+            await connection.connect();
+
+            const transaction = useTransaction
+              ? new sql.Transaction(connection)
+              : null;
+
+            const results: BatchResult[] = [];
+            // Stays out of range until the first batch starts
+            let currentIndex = -1;
+
+            try {
+              if (transaction) {
+                await transaction.begin();
+              }
+
+              for (
+                currentIndex = 0;
+                currentIndex < batches.length;
+                currentIndex++
+              ) {
+                const batch = batches[currentIndex];
+                let rows: any[] = [];
+                let rowsAffected = 0;
+
+                for (let run = 0; run < batch.repeat; run++) {
+                  const request = transaction
+                    ? new sql.Request(transaction)
+                    : connection.request();
+                  // Batches run as sent, so CREATE PROCEDURE and similar work
+                  const result = await request.batch(batch.sql);
+
+                  rows = result.recordset
+                    ? serializeRecordset(
+                        result.recordset,
+                        result.recordset.columns,
+                        serialization,
+                      )
+                    : [];
+                  rowsAffected += result.rowsAffected.reduce(
+                    (sum, count) => sum + count,
+                    0,
+                  );
+                }
+
+                results.push({
+                  index: currentIndex,
+                  line: batch.line,
+                  executions: batch.repeat,
+                  rows,
+                  rowsAffected,
+                });
+              }
+
+              if (transaction) {
+                await transaction.commit();
+              }
+            } catch (error: any) {
+              if (transaction) {
+                await transaction.rollback().catch(() => {});
+              }
+
+              const batch = batches[currentIndex];
+              if (!batch) {
+                throw error;
+              }
+
+              // The server reports lines relative to the start of the batch
+              const line =
+                typeof error.lineNumber === "number" && error.lineNumber > 0
+                  ? batch.line + error.lineNumber - 1
+                  : batch.line;
+              throw new Error(
+                `Batch ${currentIndex} failed at line ${line}${transaction ? ", transaction rolled back" : ""}: ${error.message}`,
+                { cause: error },
+              );
+            } finally {
+              await connection.close().catch(() => {});
+            }
+
+            return results;
+          },
+          // Without a transaction, batches that already ran would run again
+          { enabled: Boolean(useTransaction && retryOnTransientErrors) },
+        );
+
+        await events.emit({
+          batchCount: batches.length,
+          results,
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Script Result",
+      description: "Per-batch results of the script",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          batchCount: {
+            type: "number",
+            description: "Number of batches in the script",
+          },
+          results: {
+            type: "array",
+            description: "Results of each batch, in execution order",
+            items: {
+              type: "object",
+              properties: {
+                index: {
+                  type: "number",
+                  description: "Position of the batch starting from 0",
+                },
+                line: {
+                  type: "number",
+                  description: "Script line where the batch starts",
+                },
+                executions: {
+                  type: "number",
+                  description: "Number of times the batch ran (GO n)",
+                },
+                rows: {
+                  type: "array",
+                  description: "Rows returned by the last run of the batch",
+                  items: {
+                    type: "object",
+                  },
+                },
+                rowsAffected: {
+                  type: "number",
+                  description: "Number of rows affected across all runs",
+                },
+              },
+              required: ["index", "line", "executions", "rows", "rowsAffected"],
+            },
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: ["batchCount", "results"],
+      },
+    },
+  },
+};
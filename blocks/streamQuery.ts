@@ -1,83 +1,18 @@
 import { AppBlock, events } from "@slflows/sdk/v1";
 import * as sql from "mssql";
-import { getPool } from "../utils/pool.ts";
-
-async function* streamRows(
-  request: sql.Request,
-  query: string,
-): AsyncGenerator<any> {
-  request.stream = true;
-
-  let resolver: ((value: IteratorResult<any>) => void) | null = null;
-  let rejecter: ((error: Error) => void) | null = null;
-  const rowQueue: any[] = [];
-  let done = false;
-  let error: Error | null = null;
-
-  request.on("row", (row: any) => {
-    if (resolver) {
-      resolver({ value: row, done: false });
-      resolver = null;
-    } else {
-      rowQueue.push(row);
-    }
-  });
-
-  request.on("error", (err: Error) => {
-    error = err;
-    if (rejecter) {
-      rejecter(err);
-      rejecter = null;
-    }
-  });
-
-  request.on("done", () => {
-    done = true;
-    if (resolver) {
-      resolver({ value: undefined, done: true });
-      resolver = null;
-    }
-  });
-
-  request.query(query);
-
-  while (true) {
-    if (error) throw error;
-
-    if (rowQueue.length > 0) {
-      yield rowQueue.shift();
-    } else if (done) {
-      return;
-    } else {
-      yield await new Promise<any>((resolve, reject) => {
-        resolver = (result) => {
-          if (result.done) {
-            resolve(undefined);
-          } else {
-            resolve(result.value);
-          }
-        };
-        rejecter = reject;
-
-        // Check again in case events fired while setting up
-        if (error) {
-          reject(error);
-        } else if (rowQueue.length > 0) {
-          resolve(rowQueue.shift());
-          resolver = null;
-        } else if (done) {
-          resolve(undefined);
-          resolver = null;
-        }
-      });
+import { PoolRoute } from "../utils/pool.ts";
+import { withRetry } from "../utils/retry.ts";
+import { streamRows } from "../utils/stream.ts";
+import { getSerializationOptions, serializeRow } from "../utils/serialize.ts";
+import { bindQueryParameters } from "../utils/parameters.ts";
+import { classifySql, findReadOnlyViolation } from "../utils/sqlClassifier.ts";
+import {
+  handleBlockError,
+  rejectionError,
+  sqlErrorSchema,
+} from "../utils/errors.ts";
 
-      // Check if we got the "done" signal
-      if (done && rowQueue.length === 0) {
-        return;
-      }
-    }
-  }
-}
+type StopReason = "completed" | "maxRows" | "maxDuration";
 
 export const streamQuery: AppBlock = {
   name: "Stream Query",
@@ -98,13 +33,24 @@ export const streamQuery: AppBlock = {
         parameters: {
           name: "Parameters",
           description:
-            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name)",
+            "Map of parameter names to values (e.g. { userId: 123, name: 'John' } for @userId, @name). Use { value, type } to declare the SQL type (e.g. { code: { value: 'A1', type: 'varchar(10)' } }). Arrays become table variables that can be joined (e.g. { ids: [1, 2, 3] } for @ids), optionally bound to a table type (e.g. { value: [...], type: 'dbo.IdList' })",
           type: {
             type: "object",
             additionalProperties: true,
           },
           required: false,
         },
+        target: {
+          name: "Target",
+          description:
+            "Run against the primary or a read replica (requires Read Replica Routing in the app configuration)",
+          type: {
+            type: "string",
+            enum: ["primary", "replica"],
+          },
+          required: false,
+          default: "primary",
+        },
         batchSize: {
           name: "Batch Size",
           description: "Number of rows per batch event",
@@ -112,62 +58,200 @@ export const streamQuery: AppBlock = {
           required: false,
           default: 100,
         },
+        maxRows: {
+          name: "Max Rows",
+          description:
+            "Stop streaming after this many rows and cancel the rest of the query (leave empty for no limit)",
+          type: "number",
+          required: false,
+        },
+        maxDuration: {
+          name: "Max Duration",
+          description:
+            "Seconds after which the query is cancelled and streaming stops, keeping the batches already emitted (leave empty for no limit)",
+          type: "number",
+          required: false,
+        },
+        readOnly: {
+          name: "Read-Only",
+          description:
+            "Reject the query unless it only contains SELECT statements (always on when Read-Only Mode is set in the app configuration)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry queries that do more than SELECT after deadlocks, throttling or dropped connections (only enable when they can safely run again after a failure). Pure SELECT queries always retry",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        errorHandling: {
+          name: "Error Handling",
+          description:
+            "'throw' fails the block when the operation fails, 'emit' sends the error details to the Error output instead",
+          type: {
+            type: "string",
+            enum: ["throw", "emit"],
+          },
+          required: false,
+          default: "throw",
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
       },
       async onEvent(input) {
         const {
           query,
           parameters,
           batchSize: configBatchSize,
+          maxRows,
+          maxDuration,
+          target,
+          readOnly,
+          retryOnTransientErrors,
+          errorHandling,
+          database,
         } = input.event.inputConfig;
-        const batchSize = configBatchSize as number;
 
-        const pool = await getPool(input.app.config);
-        const request = pool.request();
+        try {
+          const batchSize = configBatchSize as number;
 
-        // Add user-defined parameters
-        const params = (parameters as Record<string, any>) || {};
-        for (const [name, value] of Object.entries(params)) {
-          request.input(name, value);
-        }
+          // Reject writes before anything reaches the server
+          const violation = findReadOnlyViolation(classifySql(query as string));
+          if (input.app.config.readOnlyMode || readOnly) {
+            if (violation) {
+              throw rejectionError(
+                `Query rejected by read-only mode: ${violation}`,
+              );
+            }
+          }
 
-        let batchNumber = 0;
-        let currentBatch: any[] = [];
+          const serialization = getSerializationOptions(input.app.config);
+          const startedAt = Date.now();
+          let batchNumber = 0;
 
-        for await (const row of streamRows(request, query as string)) {
-          if (row === undefined) break;
+          const { result, attempts } = await withRetry(
+            input.app.config,
+            {
+              route: target as PoolRoute,
+              database: database as string | undefined,
+            },
+            async (pool, attempt) => {
+              const request = pool.request();
 
-          // Handle BigInt serialization
-          const serializedRow: any = {};
-          for (const [key, value] of Object.entries(row)) {
-            if (typeof value === "bigint") {
-              serializedRow[key] = value.toString();
-            } else {
-              serializedRow[key] = value;
-            }
-          }
+              // Add user-defined parameters, unpacking arrays into tables
+              const sqlText = await bindQueryParameters(
+                request,
+                pool,
+                query as string,
+                parameters as Record<string, any>,
+              );
 
-          currentBatch.push(serializedRow);
-
-          if (currentBatch.length >= batchSize) {
-            await events.emit({
-              batchNumber,
-              rows: currentBatch,
-              rowCount: currentBatch.length,
-              hasMore: true,
-            });
-            batchNumber++;
-            currentBatch = [];
-          }
-        }
+              let currentBatch: any[] = [];
+              let columns: sql.IColumnMetadata | undefined;
+              let totalRows = 0;
+              let stopReason = "completed" as StopReason;
+
+              // Cancel the request once the time budget is spent
+              let timedOut = false;
+              const timer =
+                maxDuration != null
+                  ? setTimeout(
+                      () => {
+                        timedOut = true;
+                        request.cancel();
+                      },
+                      Math.max(
+                        0,
+                        (maxDuration as number) * 1000 -
+                          (Date.now() - startedAt),
+                      ),
+                    )
+                  : null;
+
+              try {
+                for await (const row of streamRows(request, sqlText, {
+                  onRecordset: (recordsetColumns) => {
+                    columns = recordsetColumns;
+                  },
+                })) {
+                  if (row === undefined) break;
+
+                  // Leaving the loop cancels the rest of the query
+                  if (maxRows != null && totalRows >= (maxRows as number)) {
+                    stopReason = "maxRows";
+                    break;
+                  }
+                  totalRows++;
+
+                  currentBatch.push(serializeRow(row, columns, serialization));
+
+                  if (currentBatch.length >= batchSize) {
+                    await events.emit({
+                      batchNumber,
+                      rows: currentBatch,
+                      rowCount: currentBatch.length,
+                      hasMore: true,
+                      attempts: attempt,
+                    });
+                    batchNumber++;
+                    currentBatch = [];
+                  }
+                }
+              } catch (error: any) {
+                if (!(timedOut && error.code === "ECANCEL")) {
+                  throw error;
+                }
+                stopReason = "maxDuration";
+              } finally {
+                if (timer) {
+                  clearTimeout(timer);
+                }
+              }
+
+              // Emit any remaining rows
+              if (currentBatch.length > 0) {
+                await events.emit({
+                  batchNumber,
+                  rows: currentBatch,
+                  rowCount: currentBatch.length,
+                  hasMore: false,
+                  attempts: attempt,
+                });
+                batchNumber++;
+              }
 
-        // Emit any remaining rows
-        if (currentBatch.length > 0) {
-          await events.emit({
-            batchNumber,
-            rows: currentBatch,
-            rowCount: currentBatch.length,
-            hasMore: false,
-          });
+              return { totalRows, stopReason };
+            },
+            {
+              // A failed write may have partly succeeded, so only reads retry by default
+              enabled: violation === null || Boolean(retryOnTransientErrors),
+              // Once a batch is emitted, a retry would emit its rows again
+              canRetry: () => batchNumber === 0,
+            },
+          );
+
+          await events.emit(
+            {
+              totalRows: result.totalRows,
+              batchCount: batchNumber,
+              durationMs: Date.now() - startedAt,
+              stopReason: result.stopReason,
+              truncated: result.stopReason !== "completed",
+              attempts,
+            },
+            { outputKey: "summary" },
+          );
+        } catch (error) {
+          await handleBlockError(error, errorHandling);
         }
       },
     },
@@ -201,9 +285,66 @@ export const streamQuery: AppBlock = {
             type: "boolean",
             description: "Whether more batches are expected",
           },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
         },
         required: ["batchNumber", "rows", "rowCount", "hasMore"],
       },
     },
+    summary: {
+      name: "Summary",
+      description:
+        "Emitted once after the last batch, also when the query returned no rows",
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          totalRows: {
+            type: "number",
+            description: "Number of rows emitted across all batches",
+          },
+          batchCount: {
+            type: "number",
+            description: "Number of batch events emitted",
+          },
+          durationMs: {
+            type: "number",
+            description: "Time from the start of the query to the last batch",
+          },
+          stopReason: {
+            type: "string",
+            description:
+              "Why streaming ended: 'completed', 'maxRows' or 'maxDuration'",
+          },
+          truncated: {
+            type: "boolean",
+            description:
+              "Whether rows were left unread because of Max Rows or Max Duration",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: [
+          "totalRows",
+          "batchCount",
+          "durationMs",
+          "stopReason",
+          "truncated",
+        ],
+      },
+    },
+    error: {
+      name: "Error",
+      description:
+        "Emitted with the error details when the operation fails and Error Handling is 'emit'",
+      possiblePrimaryParents: ["default"],
+      type: sqlErrorSchema,
+    },
   },
 };
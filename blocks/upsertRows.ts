@@ -0,0 +1,290 @@
+import { AppBlock, events } from "@slflows/sdk/v1";
+import * as sql from "mssql";
+import { withRetry } from "../utils/retry.ts";
+import {
+  parseTableName,
+  sanitizeIdentifier,
+  sanitizeTableName,
+} from "../utils/identifiers.ts";
+import { formatColumnType, getTableColumns } from "../utils/catalog.ts";
+import { bulkLoad } from "../utils/bulk.ts";
+
+const STAGING_TABLE = "#upsert_source";
+const STAGING_CHUNK_SIZE = 5000;
+
+export const upsertRows: AppBlock = {
+  name: "Upsert Rows",
+  description:
+    "Inserts or updates rows matched on key columns using a MERGE statement",
+  category: "Bulk Operations",
+
+  inputs: {
+    default: {
+      config: {
+        table: {
+          name: "Table Name",
+          description:
+            "Target table name (optionally with schema, e.g., 'dbo.users')",
+          type: "string",
+          required: true,
+        },
+        keyColumns: {
+          name: "Key Columns",
+          description: "Columns that identify a row in the target table",
+          type: {
+            type: "array",
+            items: {
+              type: "string",
+            },
+          },
+          required: true,
+        },
+        rows: {
+          name: "Rows",
+          description:
+            "Array of row objects keyed by column name (e.g. [{ id: 1, name: 'John' }])",
+          type: {
+            type: "array",
+            items: {
+              type: "object",
+              additionalProperties: true,
+            },
+          },
+          required: true,
+        },
+        deleteMissing: {
+          name: "Delete Rows Not In Source",
+          description:
+            "Delete rows from the target table whose keys are not present in the input rows (rejected when there are no input rows)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        updateOnlyChanged: {
+          name: "Only Update When Changed",
+          description:
+            "Skip updating matched rows whose values are identical to the input",
+          type: "boolean",
+          required: false,
+          default: true,
+        },
+        retryOnTransientErrors: {
+          name: "Retry On Transient Errors",
+          description:
+            "Retry after deadlocks, throttling or dropped connections (only enable when the upsert can safely run again after a failure)",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+        database: {
+          name: "Database",
+          description:
+            "Database to use instead of the one in the app configuration (same server and credentials)",
+          type: "string",
+          required: false,
+        },
+      },
+      async onEvent(input) {
+        const {
+          table,
+          keyColumns,
+          rows,
+          deleteMissing,
+          updateOnlyChanged,
+          retryOnTransientErrors,
+          database,
+        } = input.event.inputConfig;
+
+        const keys = keyColumns as string[];
+        const rowObjects = rows as Record<string, any>[];
+
+        if (keys.length === 0) {
+          throw new Error("At least one key column is required");
+        }
+
+        // An empty source would match nothing and delete every row in the table
+        if (deleteMissing && rowObjects.length === 0) {
+          throw new Error(
+            "Delete Rows Not In Source requires at least one input row",
+          );
+        }
+
+        const { result: counts, attempts } = await withRetry(
+          input.app.config,
+          {
+            database: database as string | undefined,
+          },
+          async (pool) => {
+            const { schema, table: tableName } = parseTableName(
+              table as string,
+            );
+            const tableColumns = await getTableColumns(pool, schema, tableName);
+            if (tableColumns.length === 0) {
+              throw new Error(`Table ${schema}.${tableName} not found`);
+            }
+
+            // Columns present in any input row, resolved against the target table
+            const columnNames = new Set<string>(keys);
+            for (const row of rowObjects) {
+              Object.keys(row).forEach((name) => columnNames.add(name));
+            }
+            const columns = [...columnNames].map((name) => {
+              const column = tableColumns.find(
+                (col) => col.name.toLowerCase() === name.toLowerCase(),
+              );
+              if (!column) {
+                throw new Error(
+                  `Column ${name} does not exist in table ${schema}.${tableName}`,
+                );
+              }
+              if (column.isComputed) {
+                throw new Error(
+                  `Column ${name} is computed and cannot be written`,
+                );
+              }
+              return column;
+            });
+
+            const isKey = (name: string) =>
+              keys.some((key) => key.toLowerCase() === name.toLowerCase());
+            const keyList = columns.filter((col) => isKey(col.name));
+            const updateList = columns.filter(
+              (col) => !isKey(col.name) && !col.isIdentity,
+            );
+            const insertList = columns.filter((col) => !col.isIdentity);
+
+            const onClause = keyList
+              .map(
+                (col) =>
+                  `target.${sanitizeIdentifier(col.name)} = source.${sanitizeIdentifier(col.name)}`,
+              )
+              .join(" AND ");
+
+            const clauses: string[] = [];
+            if (updateList.length > 0) {
+              // EXCEPT compares NULLs as equal, unlike <>
+              const changedCondition = updateOnlyChanged
+                ? ` AND EXISTS (SELECT ${updateList.map((col) => `source.${sanitizeIdentifier(col.name)}`).join(", ")} EXCEPT SELECT ${updateList.map((col) => `target.${sanitizeIdentifier(col.name)}`).join(", ")})`
+                : "";
+              clauses.push(
+                `WHEN MATCHED${changedCondition} THEN UPDATE SET ${updateList.map((col) => `target.${sanitizeIdentifier(col.name)} = source.${sanitizeIdentifier(col.name)}`).join(", ")}`,
+              );
+            }
+            clauses.push(
+              `WHEN NOT MATCHED BY TARGET THEN INSERT (${insertList.map((col) => sanitizeIdentifier(col.name)).join(", ")}) VALUES (${insertList.map((col) => `source.${sanitizeIdentifier(col.name)}`).join(", ")})`,
+            );
+            if (deleteMissing) {
+              clauses.push("WHEN NOT MATCHED BY SOURCE THEN DELETE");
+            }
+
+            const mergeQuery = `
+          DECLARE @changes TABLE (action NVARCHAR(10));
+          MERGE INTO ${sanitizeTableName(table as string)} WITH (HOLDLOCK) AS target
+          USING ${STAGING_TABLE} AS source
+          ON ${onClause}
+          ${clauses.join("\n          ")}
+          OUTPUT $action INTO @changes;
+          SELECT action, COUNT(*) AS count FROM @changes GROUP BY action;
+        `;
+
+            // The staging table lives on the transaction's connection
+            const transaction = new sql.Transaction(pool);
+            await transaction.begin();
+
+            let counts: Record<string, number> = {};
+            try {
+              // Temp tables default to tempdb's collation, which may conflict
+              // with the target's in the ON clause and the change check
+              const createStaging = `CREATE TABLE ${STAGING_TABLE} (${columns.map((col) => `${sanitizeIdentifier(col.name)} ${formatColumnType(col)}${col.collation ? ` COLLATE ${col.collation}` : ""} NULL`).join(", ")})`;
+              await transaction.request().query(createStaging);
+
+              await bulkLoad(
+                transaction,
+                STAGING_TABLE,
+                columns.map((col) => ({
+                  ...col,
+                  nullable: true,
+                  isIdentity: false,
+                })),
+                columns.map((col) => col.name),
+                rowObjects.map((row) =>
+                  columns.map((col) => {
+                    const key = Object.keys(row).find(
+                      (name) => name.toLowerCase() === col.name.toLowerCase(),
+                    );
+                    return key === undefined ? null : row[key];
+                  }),
+                ),
+                { chunkSize: STAGING_CHUNK_SIZE },
+              );
+
+              const result = await transaction.request().query(mergeQuery);
+              counts = Object.fromEntries(
+                result.recordset.map((row: any) => [row.action, row.count]),
+              );
+
+              await transaction.request().query(`DROP TABLE ${STAGING_TABLE}`);
+              await transaction.commit();
+            } catch (error) {
+              await transaction.rollback().catch(() => {});
+              throw error;
+            }
+
+            return counts;
+          },
+          // A connection dropped during COMMIT leaves the outcome unknown
+          { enabled: Boolean(retryOnTransientErrors) },
+        );
+
+        await events.emit({
+          table: table as string,
+          rowCount: rowObjects.length,
+          inserted: counts.INSERT || 0,
+          updated: counts.UPDATE || 0,
+          deleted: counts.DELETE || 0,
+          attempts,
+        });
+      },
+    },
+  },
+
+  outputs: {
+    default: {
+      name: "Upsert Result",
+      description: "Counts of rows changed by the MERGE",
+      default: true,
+      possiblePrimaryParents: ["default"],
+      type: {
+        type: "object",
+        properties: {
+          table: {
+            type: "string",
+            description: "The target table name",
+          },
+          rowCount: {
+            type: "number",
+            description: "Number of input rows",
+          },
+          inserted: {
+            type: "number",
+            description: "Number of rows inserted",
+          },
+          updated: {
+            type: "number",
+            description: "Number of rows updated",
+          },
+          deleted: {
+            type: "number",
+            description: "Number of rows deleted",
+          },
+          attempts: {
+            type: "number",
+            description:
+              "Number of attempts needed, including retries after transient errors",
+          },
+        },
+        required: ["table", "rowCount", "inserted", "updated", "deleted"],
+      },
+    },
+  },
+};
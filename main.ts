@@ -1,6 +1,77 @@
 import { defineApp } from "@slflows/sdk/v1";
 import { blocks } from "./blocks/index";
 import * as sql from "mssql";
+import { createPoolConfig } from "./utils/pool.ts";
+import {
+  authenticationTypes,
+  describeAuthenticationError,
+  validateAuthenticationConfig,
+} from "./utils/auth.ts";
+import { errorChain } from "./utils/retry.ts";
+import { binaryFormats, dateFormats, uuidCases } from "./utils/serialize.ts";
+
+// SERVERPROPERTY('EngineEdition') values
+const engineEditions: Record<number, string> = {
+  1: "Personal or Desktop",
+  2: "Standard",
+  3: "Enterprise",
+  4: "Express",
+  5: "Azure SQL Database",
+  6: "Azure Synapse Analytics",
+  8: "Azure SQL Managed Instance",
+  9: "Azure SQL Edge",
+  11: "Azure Synapse serverless SQL pool",
+};
+
+// Node.js TLS error codes raised while verifying the server certificate
+const certificateErrorCodes = new Set([
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "CERT_HAS_EXPIRED",
+  "CERT_NOT_YET_VALID",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+/**
+ * Turns a failed connection test into a status description
+ */
+function describeConnectionError(config: any, error: any): string {
+  const chain = [...errorChain(error)];
+  const hasCode = (...codes: string[]) =>
+    chain.some((current) => codes.includes(current.code));
+  const messages = chain.map((current) => String(current.message)).join(" ");
+
+  if (hasCode("ENOTFOUND", "ECONNREFUSED")) {
+    return "Cannot reach database server";
+  }
+  if (chain.some((current) => certificateErrorCodes.has(current.code))) {
+    return "Server certificate could not be verified (check the CA certificate or Trust Server Certificate)";
+  }
+  if (/SSL|TLS|certificate/i.test(messages)) {
+    return "TLS handshake with the server failed (check Encrypt Connection and the server's TLS settings)";
+  }
+  // 40615 and 40914 are Azure SQL firewall and virtual network rule rejections
+  if (chain.some((current) => [40615, 40914].includes(current.number))) {
+    return "Connection rejected by the server firewall (allow this client's IP address)";
+  }
+  if (hasCode("ETIMEOUT")) {
+    return "Login timed out (server unreachable or too slow to respond within the connection timeout)";
+  }
+  if (hasCode("ESOCKET")) {
+    return "Network error connecting to server";
+  }
+
+  const authDescription = describeAuthenticationError(config, error);
+  if (authDescription) {
+    return authDescription;
+  }
+  if (error.number === 4060) {
+    return "Database does not exist";
+  }
+  return "Connection failed";
+}
 
 export const app = defineApp({
   name: "Microsoft SQL Server",
@@ -30,15 +101,63 @@ export const app = defineApp({
       required: true,
       default: "master",
     },
+    authenticationType: {
+      name: "Authentication Type",
+      description:
+        "How to authenticate: 'sql' (SQL login), 'azure-active-directory-password', 'azure-active-directory-service-principal-secret', 'azure-active-directory-access-token' or 'ntlm' (Windows domain)",
+      type: {
+        type: "string",
+        enum: [...authenticationTypes],
+      },
+      required: false,
+      default: "sql",
+    },
     username: {
       name: "Username",
-      description: "SQL Server username for authentication",
+      description:
+        "Username for SQL login, Azure AD password or Windows authentication",
       type: "string",
-      required: true,
+      required: false,
     },
     password: {
       name: "Password",
-      description: "SQL Server password for authentication",
+      description:
+        "Password for SQL login, Azure AD password or Windows authentication",
+      type: "string",
+      required: false,
+      sensitive: true,
+    },
+    domain: {
+      name: "Domain",
+      description: "Windows domain for NTLM authentication",
+      type: "string",
+      required: false,
+    },
+    tenantId: {
+      name: "Tenant ID",
+      description: "Azure AD tenant ID",
+      type: "string",
+      required: false,
+    },
+    clientId: {
+      name: "Client ID",
+      description:
+        "Azure AD application (client) ID for Azure AD password or service principal authentication",
+      type: "string",
+      required: false,
+    },
+    clientSecret: {
+      name: "Client Secret",
+      description:
+        "Azure AD client secret for service principal authentication",
+      type: "string",
+      required: false,
+      sensitive: true,
+    },
+    accessToken: {
+      name: "Access Token",
+      description:
+        "Azure AD access token for the https://database.windows.net/ resource",
       type: "string",
       required: false,
       sensitive: true,
@@ -80,27 +199,138 @@ export const app = defineApp({
       required: false,
       default: 30,
     },
+    multiSubnetFailover: {
+      name: "Multi-Subnet Failover",
+      description:
+        "Connect to all IP addresses of an availability group listener in parallel for faster failover",
+      type: "boolean",
+      required: false,
+      default: false,
+    },
+    readReplicaEnabled: {
+      name: "Read Replica Routing",
+      description:
+        "Allow blocks to send reads to a readable secondary using ApplicationIntent=ReadOnly (requires read-only routing on the availability group)",
+      type: "boolean",
+      required: false,
+      default: false,
+    },
+    readOnlyMode: {
+      name: "Read-Only Mode",
+      description:
+        "Reject anything other than SELECT statements in Execute Query, Stream Query and Export Query before it is sent to the server",
+      type: "boolean",
+      required: false,
+      default: false,
+    },
+    retryMaxAttempts: {
+      name: "Retry Attempts",
+      description:
+        "Maximum attempts for operations failing with transient errors such as deadlocks, Azure SQL throttling or dropped connections (1 disables retries)",
+      type: "number",
+      required: false,
+      default: 3,
+    },
+    retryInitialDelay: {
+      name: "Retry Initial Delay",
+      description:
+        "Delay before the first retry in milliseconds, doubled for every further retry",
+      type: "number",
+      required: false,
+      default: 200,
+    },
+    retryMaxDelay: {
+      name: "Retry Max Delay",
+      description: "Upper bound for the delay between retries in milliseconds",
+      type: "number",
+      required: false,
+      default: 10000,
+    },
+    binaryFormat: {
+      name: "Binary Format",
+      description:
+        "How BINARY and VARBINARY values are returned: 'base64' or 'hex'",
+      type: {
+        type: "string",
+        enum: [...binaryFormats],
+      },
+      required: false,
+      default: "base64",
+    },
+    dateFormat: {
+      name: "Date Format",
+      description:
+        "How date and time values are returned: 'iso' (UTC with a Z suffix) or 'iso-without-offset' (the stored date and time without a suffix). DATE and TIME columns are always returned as date-only and time-only strings",
+      type: {
+        type: "string",
+        enum: [...dateFormats],
+      },
+      required: false,
+      default: "iso",
+    },
+    uuidCase: {
+      name: "UUID Case",
+      description: "Letter case of UNIQUEIDENTIFIER values: 'upper' or 'lower'",
+      type: {
+        type: "string",
+        enum: [...uuidCases],
+      },
+      required: false,
+      default: "upper",
+    },
+    parseJson: {
+      name: "Parse JSON",
+      description:
+        "Parse text columns holding JSON objects or arrays, and FOR JSON results, into objects",
+      type: "boolean",
+      required: false,
+      default: false,
+    },
+  },
+
+  signals: {
+    serverVersion: {
+      name: "Server Version",
+      description: "SQL Server product version and level",
+    },
+    edition: {
+      name: "Edition",
+      description: "SQL Server edition",
+    },
+    engineEdition: {
+      name: "Engine Edition",
+      description:
+        "Database engine edition, e.g. Enterprise or Azure SQL Database",
+    },
+    compatibilityLevel: {
+      name: "Compatibility Level",
+      description: "Compatibility level of the configured database",
+    },
+    collation: {
+      name: "Collation",
+      description: "Collation of the configured database",
+    },
+    permissions: {
+      name: "Permissions",
+      description:
+        "Whether the login can SELECT, INSERT, EXECUTE and ALTER in the configured database",
+    },
   },
 
   async onSync(input) {
     const config = input.app.config;
 
+    const authError = validateAuthenticationConfig(config);
+    if (authError) {
+      return {
+        newStatus: "failed" as const,
+        customStatusDescription: authError,
+      };
+    }
+
     const poolConfig: sql.config = {
-      server: config.server as string,
-      port: config.port as number,
-      database: config.database as string,
-      user: config.username as string,
-      password: config.password as string | undefined,
-      connectionTimeout: (config.connectionTimeout as number) * 1000,
-      requestTimeout: (config.requestTimeout as number) * 1000,
+      ...createPoolConfig(config),
       pool: { max: 1 },
-      options: {
-        encrypt: config.encrypt as boolean,
-        trustServerCertificate: config.trustServerCertificate as boolean,
-        cryptoCredentialsDetails: config.caCertificate
-          ? { ca: config.caCertificate as string }
-          : undefined,
-      },
     };
 
     let pool: sql.ConnectionPool | null = null;
@@ -108,18 +338,29 @@ export const app = defineApp({
       pool = new sql.ConnectionPool(poolConfig);
       await pool.connect();
 
-      // Test basic connectivity
-      await pool.request().query("SELECT 1");
-
-      // Check database access permission
-      const permCheck = await pool
+      // Server inventory and effective permissions on the database
+      const inventory = await pool
         .request()
         .input("dbName", sql.NVarChar, config.database)
         .query(
-          `SELECT HAS_PERMS_BY_NAME(@dbName, 'DATABASE', 'CONNECT') AS can_connect`,
+          `SELECT
+            CAST(SERVERPROPERTY('ProductVersion') AS NVARCHAR(128)) AS product_version,
+            CAST(SERVERPROPERTY('ProductLevel') AS NVARCHAR(128)) AS product_level,
+            CAST(SERVERPROPERTY('Edition') AS NVARCHAR(128)) AS edition,
+            CAST(SERVERPROPERTY('EngineEdition') AS INT) AS engine_edition,
+            d.compatibility_level,
+            d.collation_name,
+            HAS_PERMS_BY_NAME(@dbName, 'DATABASE', 'CONNECT') AS can_connect,
+            HAS_PERMS_BY_NAME(@dbName, 'DATABASE', 'SELECT') AS can_select,
+            HAS_PERMS_BY_NAME(@dbName, 'DATABASE', 'INSERT') AS can_insert,
+            HAS_PERMS_BY_NAME(@dbName, 'DATABASE', 'EXECUTE') AS can_execute,
+            HAS_PERMS_BY_NAME(@dbName, 'DATABASE', 'ALTER') AS can_alter
+          FROM sys.databases d
+          WHERE d.name = DB_NAME()`,
         );
+      const info = inventory.recordset[0];
 
-      if (!permCheck.recordset[0].can_connect) {
+      if (!info.can_connect) {
         await pool.close();
         return {
           newStatus: "failed" as const,
@@ -127,10 +368,63 @@ export const app = defineApp({
         };
       }
 
+      const signalUpdates = {
+        serverVersion: `${info.product_version} ${info.product_level}`,
+        edition: info.edition,
+        engineEdition:
+          engineEditions[info.engine_edition] || String(info.engine_edition),
+        compatibilityLevel: info.compatibility_level,
+        collation: info.collation_name,
+        permissions: {
+          select: Boolean(info.can_select),
+          insert: Boolean(info.can_insert),
+          execute: Boolean(info.can_execute),
+          alter: Boolean(info.can_alter),
+        },
+      };
+
       await pool.close();
+      pool = null;
+
+      // Verify that read-only routing lands on a readable secondary
+      if (config.readReplicaEnabled) {
+        let updateability: string | null = null;
+        try {
+          pool = new sql.ConnectionPool({
+            ...createPoolConfig(config, "replica"),
+            pool: { max: 1 },
+          });
+          await pool.connect();
+          const replicaCheck = await pool
+            .request()
+            .query(
+              `SELECT CAST(DATABASEPROPERTYEX(DB_NAME(), 'Updateability') AS NVARCHAR(20)) AS updateability`,
+            );
+          updateability = replicaCheck.recordset[0].updateability;
+          await pool.close();
+        } catch (error: any) {
+          await pool?.close().catch(() => {});
+          console.error("Read replica connection test failed:", error.message);
+          return {
+            newStatus: "failed" as const,
+            customStatusDescription: `Cannot connect to read replica: ${describeConnectionError(config, error)}`,
+            signalUpdates,
+          };
+        }
+
+        if (updateability !== "READ_ONLY") {
+          return {
+            newStatus: "failed" as const,
+            customStatusDescription:
+              "Read replica route reached a writable database (check read-only routing)",
+            signalUpdates,
+          };
+        }
+      }
 
       return {
         newStatus: "ready" as const,
+        signalUpdates,
       };
     } catch (error: any) {
       if (pool) {
@@ -139,20 +433,9 @@ export const app = defineApp({
 
       console.error("SQL Server connection test failed:", error.message);
 
-      let statusDescription = "Connection failed";
-      if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED") {
-        statusDescription = "Cannot reach database server";
-      } else if (error.code === "ESOCKET") {
-        statusDescription = "Network error connecting to server";
-      } else if (error.number === 18456) {
-        statusDescription = "Authentication failed";
-      } else if (error.number === 4060) {
-        statusDescription = "Database does not exist";
-      }
-
       return {
         newStatus: "failed" as const,
-        customStatusDescription: statusDescription,
+        customStatusDescription: describeConnectionError(config, error),
       };
     }
   },
@@ -0,0 +1,162 @@
+import * as sql from "mssql";
+
+/**
+ * Supported values of the authenticationType app config
+ */
+export const authenticationTypes = [
+  "sql",
+  "azure-active-directory-password",
+  "azure-active-directory-service-principal-secret",
+  "azure-active-directory-access-token",
+  "ntlm",
+] as const;
+
+export type AuthenticationType = (typeof authenticationTypes)[number];
+
+/**
+ * Reads the authentication type from app config, defaulting to SQL logins
+ */
+export function getAuthenticationType(appConfig: any): AuthenticationType {
+  return (appConfig.authenticationType as AuthenticationType) || "sql";
+}
+
+/**
+ * Checks that the fields required by the selected authentication type are set.
+ * Returns a status description for the first problem found, or null.
+ */
+export function validateAuthenticationConfig(appConfig: any): string | null {
+  const type = getAuthenticationType(appConfig);
+
+  switch (type) {
+    case "sql":
+      return appConfig.username ? null : "Username is required for SQL login";
+    case "azure-active-directory-password":
+      if (!appConfig.username || !appConfig.password) {
+        return "Username and password are required for Azure AD password authentication";
+      }
+      if (!appConfig.clientId) {
+        return "Client ID is required for Azure AD password authentication";
+      }
+      return null;
+    case "azure-active-directory-service-principal-secret":
+      if (!appConfig.clientId || !appConfig.clientSecret) {
+        return "Client ID and client secret are required for service principal authentication";
+      }
+      if (!appConfig.tenantId) {
+        return "Tenant ID is required for service principal authentication";
+      }
+      return null;
+    case "azure-active-directory-access-token":
+      return appConfig.accessToken
+        ? null
+        : "Access token is required for access token authentication";
+    case "ntlm":
+      if (!appConfig.username || !appConfig.password) {
+        return "Username and password are required for Windows authentication";
+      }
+      return appConfig.domain
+        ? null
+        : "Domain is required for Windows authentication";
+    default:
+      return `Unsupported authentication type: ${type}`;
+  }
+}
+
+/**
+ * Builds the credential part of the mssql config for the selected authentication type
+ */
+export function createAuthenticationConfig(
+  appConfig: any,
+): Pick<sql.config, "user" | "password" | "authentication"> {
+  const type = getAuthenticationType(appConfig);
+
+  switch (type) {
+    case "azure-active-directory-password":
+      return {
+        authentication: {
+          type,
+          options: {
+            userName: appConfig.username as string,
+            password: appConfig.password as string,
+            clientId: appConfig.clientId as string,
+            ...(appConfig.tenantId && {
+              tenantId: appConfig.tenantId as string,
+            }),
+          },
+        },
+      };
+    case "azure-active-directory-service-principal-secret":
+      return {
+        authentication: {
+          type,
+          options: {
+            clientId: appConfig.clientId as string,
+            clientSecret: appConfig.clientSecret as string,
+            tenantId: appConfig.tenantId as string,
+          },
+        },
+      };
+    case "azure-active-directory-access-token":
+      return {
+        authentication: {
+          type,
+          options: {
+            token: appConfig.accessToken as string,
+          },
+        },
+      };
+    case "ntlm":
+      return {
+        authentication: {
+          type,
+          options: {
+            userName: appConfig.username as string,
+            password: appConfig.password as string,
+            domain: appConfig.domain as string,
+          },
+        },
+      };
+    default:
+      return {
+        user: appConfig.username as string,
+        password: appConfig.password as string | undefined,
+      };
+  }
+}
+
+/**
+ * Describes an authentication failure in terms of the selected authentication type
+ */
+export function describeAuthenticationError(
+  appConfig: any,
+  error: any,
+): string | null {
+  const type = getAuthenticationType(appConfig);
+  const message = String(error?.message || "");
+  // 18456 is a failed login, 18452 an untrusted Windows domain
+  const isLoginFailure =
+    error?.number === 18456 ||
+    error?.number === 18452 ||
+    /AADSTS\d+/.test(message);
+
+  if (!isLoginFailure) {
+    return null;
+  }
+
+  switch (type) {
+    case "azure-active-directory-password":
+      return /AADSTS50126/.test(message)
+        ? "Azure AD authentication failed: invalid username or password"
+        : "Azure AD password authentication failed";
+    case "azure-active-directory-service-principal-secret":
+      return /AADSTS7000215/.test(message)
+        ? "Service principal authentication failed: invalid client secret"
+        : "Service principal authentication failed";
+    case "azure-active-directory-access-token":
+      return "Access token was rejected (expired or issued for another resource)";
+    case "ntlm":
+      return "Windows authentication failed";
+    default:
+      return "Authentication failed";
+  }
+}
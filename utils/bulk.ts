@@ -0,0 +1,84 @@
+import * as sql from "mssql";
+import { ColumnInfo, Queryable, formatColumnType } from "./catalog.ts";
+import { parseSqlType } from "./sqlTypes.ts";
+
+export interface BulkLoadOptions extends sql.IBulkOptions {
+  chunkSize: number;
+}
+
+export interface BulkChunkResult {
+  chunkNumber: number;
+  rowCount: number;
+}
+
+/**
+ * Loads rows into a table over the TDS bulk-copy protocol, one chunk at a time.
+ * Column types come from the target table's catalog metadata, so values are
+ * sent exactly as the table expects them. When a chunk fails, the error
+ * carries the rows and chunks loaded before it as loadedRowCount and
+ * loadedChunkCount.
+ */
+export async function bulkLoad(
+  target: Queryable,
+  tableName: string,
+  tableColumns: ColumnInfo[],
+  columnNames: string[],
+  rows: any[][],
+  options: BulkLoadOptions,
+): Promise<{ rowCount: number; chunks: BulkChunkResult[] }> {
+  const { chunkSize, ...bulkOptions } = options;
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Chunk size must be a positive integer, got ${chunkSize}`);
+  }
+
+  const columns = columnNames.map((name) => {
+    const column = tableColumns.find(
+      (col) => col.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (!column) {
+      throw new Error(`Column ${name} does not exist in table ${tableName}`);
+    }
+    return column;
+  });
+
+  const chunks: BulkChunkResult[] = [];
+  let rowCount = 0;
+
+  for (let offset = 0; offset < rows.length; offset += chunkSize) {
+    const table = new sql.Table(tableName);
+    table.create = false;
+
+    for (const column of columns) {
+      table.columns.add(column.name, parseSqlType(formatColumnType(column)), {
+        nullable: column.nullable,
+        identity: column.isIdentity,
+      });
+    }
+
+    for (const row of rows.slice(offset, offset + chunkSize)) {
+      // Handle BigInt values
+      table.rows.add(
+        ...row.map((value) =>
+          typeof value === "bigint" ? value.toString() : value,
+        ),
+      );
+    }
+
+    const chunkNumber = chunks.length;
+    let result: sql.IBulkResult;
+    try {
+      result = await target.request().bulk(table, bulkOptions);
+    } catch (error: any) {
+      throw Object.assign(
+        new Error(`Chunk ${chunkNumber} failed: ${error.message}`, {
+          cause: error,
+        }),
+        { loadedRowCount: rowCount, loadedChunkCount: chunkNumber },
+      );
+    }
+    chunks.push({ chunkNumber, rowCount: result.rowsAffected });
+    rowCount += result.rowsAffected;
+  }
+
+  return { rowCount, chunks };
+}
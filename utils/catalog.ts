@@ -0,0 +1,177 @@
+import * as sql from "mssql";
+
+/**
+ * Anything requests can be issued against: the pool itself or an open transaction
+ */
+export type Queryable = sql.ConnectionPool | sql.Transaction;
+
+/**
+ * Column metadata as read from the system catalog
+ */
+export interface ColumnInfo {
+  name: string;
+  dataType: string;
+  systemType: string;
+  nullable: boolean;
+  defaultValue: string | null;
+  maxLength: number;
+  numericPrecision: number;
+  numericScale: number;
+  // Collation of character columns, null for other types
+  collation: string | null;
+  comment: string | null;
+  isIdentity: boolean;
+  isComputed: boolean;
+}
+
+/**
+ * Retrieves the columns of a table in ordinal order
+ */
+export async function getTableColumns(
+  target: Queryable,
+  schema: string,
+  table: string,
+): Promise<ColumnInfo[]> {
+  const columnsQuery = `
+    SELECT
+      c.name AS column_name,
+      TYPE_NAME(c.user_type_id) AS data_type,
+      TYPE_NAME(c.system_type_id) AS system_type,
+      CASE WHEN c.is_nullable = 1 THEN 'YES' ELSE 'NO' END AS is_nullable,
+      dc.definition AS column_default,
+      c.max_length AS character_maximum_length,
+      c.precision AS numeric_precision,
+      c.scale AS numeric_scale,
+      c.collation_name,
+      CAST(ep.value AS NVARCHAR(MAX)) AS column_comment,
+      c.is_identity,
+      c.is_computed
+    FROM sys.columns c
+    INNER JOIN sys.tables t ON c.object_id = t.object_id
+    INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
+    LEFT JOIN sys.default_constraints dc ON c.default_object_id = dc.object_id
+    LEFT JOIN sys.extended_properties ep
+      ON ep.major_id = c.object_id AND ep.minor_id = c.column_id AND ep.name = 'MS_Description'
+    WHERE s.name = @p1 AND t.name = @p2
+    ORDER BY c.column_id
+  `;
+
+  const request = target.request();
+  request.input("p1", schema);
+  request.input("p2", table);
+  const result = await request.query(columnsQuery);
+
+  return result.recordset.map(toColumnInfo);
+}
+
+/**
+ * Retrieves the columns of a user-defined table type in ordinal order
+ */
+export async function getTableTypeColumns(
+  target: Queryable,
+  schema: string,
+  typeName: string,
+): Promise<ColumnInfo[]> {
+  const columnsQuery = `
+    SELECT
+      c.name AS column_name,
+      TYPE_NAME(c.user_type_id) AS data_type,
+      TYPE_NAME(c.system_type_id) AS system_type,
+      CASE WHEN c.is_nullable = 1 THEN 'YES' ELSE 'NO' END AS is_nullable,
+      dc.definition AS column_default,
+      c.max_length AS character_maximum_length,
+      c.precision AS numeric_precision,
+      c.scale AS numeric_scale,
+      c.collation_name,
+      NULL AS column_comment,
+      c.is_identity,
+      c.is_computed
+    FROM sys.table_types tt
+    INNER JOIN sys.schemas s ON tt.schema_id = s.schema_id
+    INNER JOIN sys.columns c ON c.object_id = tt.type_table_object_id
+    LEFT JOIN sys.default_constraints dc ON c.default_object_id = dc.object_id
+    WHERE s.name = @p1 AND tt.name = @p2
+    ORDER BY c.column_id
+  `;
+
+  const request = target.request();
+  request.input("p1", schema);
+  request.input("p2", typeName);
+  const result = await request.query(columnsQuery);
+
+  return result.recordset.map(toColumnInfo);
+}
+
+function toColumnInfo(col: any): ColumnInfo {
+  return {
+    name: col.column_name,
+    dataType: col.data_type,
+    systemType: col.system_type,
+    nullable: col.is_nullable === "YES",
+    defaultValue: col.column_default,
+    maxLength: col.character_maximum_length,
+    numericPrecision: col.numeric_precision,
+    numericScale: col.numeric_scale,
+    collation: col.collation_name ?? null,
+    comment: col.column_comment,
+    isIdentity: col.is_identity,
+    isComputed: col.is_computed,
+  };
+}
+
+/**
+ * Builds the SQL type declaration of a catalog column, e.g. "nvarchar(50)" or "decimal(18,4)"
+ */
+export function formatColumnType(column: ColumnInfo): string {
+  const type = column.systemType.toLowerCase();
+
+  switch (type) {
+    case "char":
+    case "varchar":
+    case "binary":
+    case "varbinary":
+      return column.maxLength === -1
+        ? `${type}(max)`
+        : `${type}(${column.maxLength})`;
+    case "nchar":
+    case "nvarchar":
+      // max_length is in bytes, two per character
+      return column.maxLength === -1
+        ? `${type}(max)`
+        : `${type}(${column.maxLength / 2})`;
+    case "decimal":
+    case "numeric":
+      return `${type}(${column.numericPrecision},${column.numericScale})`;
+    case "time":
+    case "datetime2":
+    case "datetimeoffset":
+      return `${type}(${column.numericScale})`;
+    default:
+      return type;
+  }
+}
+
+/**
+ * Retrieves the primary key columns of a table in key order
+ */
+export async function getPrimaryKeyColumns(
+  target: Queryable,
+  schema: string,
+  table: string,
+): Promise<string[]> {
+  const request = target.request();
+  request.input("p1", schema);
+  request.input("p2", table);
+  const result = await request.query(`
+    SELECT c.name AS column_name
+    FROM sys.key_constraints kc
+    INNER JOIN sys.tables t ON kc.parent_object_id = t.object_id
+    INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
+    INNER JOIN sys.index_columns ic ON kc.parent_object_id = ic.object_id AND kc.unique_index_id = ic.index_id
+    INNER JOIN sys.columns c ON ic.object_id = c.object_id AND ic.column_id = c.column_id
+    WHERE s.name = @p1 AND t.name = @p2 AND kc.type = 'PK'
+    ORDER BY ic.key_ordinal
+  `);
+
+  return result.recordset.map((row: any) => row.column_name);
+}
@@ -0,0 +1,35 @@
+import * as sql from "mssql";
+
+/**
+ * Column metadata of a result set, in column order
+ */
+export interface ResultColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  length: number | null;
+  precision: number | null;
+  scale: number | null;
+}
+
+/**
+ * Describes the columns of a recordset from the metadata mssql attaches to it
+ */
+export function describeColumns(
+  columns: sql.IColumnMetadata | undefined,
+): ResultColumn[] {
+  return Object.values(columns || {})
+    .sort((a, b) => a.index - b.index)
+    .map((column) => {
+      // Column types are the mssql type factories, which carry their SQL name
+      const type = column.type as any;
+      return {
+        name: column.name,
+        type: type?.declaration ?? type?.type?.declaration ?? "unknown",
+        nullable: column.nullable,
+        length: column.length ?? null,
+        precision: column.precision ?? null,
+        scale: column.scale ?? null,
+      };
+    });
+}
@@ -0,0 +1,222 @@
+import { events } from "@slflows/sdk/v1";
+import { errorChain, isConnectionError, isTransientError } from "./retry.ts";
+
+/**
+ * Categories reported for failed operations, so flows can branch on the kind
+ * of failure without parsing messages
+ */
+export const errorCategories = [
+  "unique_violation",
+  "fk_violation",
+  "check_violation",
+  "not_null_violation",
+  "truncation",
+  "conversion_error",
+  "arithmetic_error",
+  "syntax_error",
+  "invalid_object",
+  "permission_denied",
+  "deadlock",
+  "timeout",
+  "cancelled",
+  "connection",
+  "transient",
+  "rejected",
+  "unknown",
+] as const;
+
+export type ErrorCategory = (typeof errorCategories)[number];
+
+export interface SqlErrorInfo {
+  category: ErrorCategory;
+  message: string;
+  code: string | null;
+  number: number | null;
+  severity: number | null;
+  state: number | null;
+  lineNumber: number | null;
+  procedure: string | null;
+  serverName: string | null;
+  // Bulk loads only: rows and chunks committed before the failing chunk
+  loadedRowCount?: number;
+  loadedChunkCount?: number;
+}
+
+// Categories of server error numbers that are not decided by the message
+const errorNumberCategories: Record<number, ErrorCategory> = {
+  2601: "unique_violation",
+  2627: "unique_violation",
+  515: "not_null_violation",
+  2628: "truncation",
+  8152: "truncation",
+  241: "conversion_error",
+  245: "conversion_error",
+  8114: "conversion_error",
+  8169: "conversion_error",
+  220: "arithmetic_error",
+  8115: "arithmetic_error",
+  8134: "arithmetic_error",
+  102: "syntax_error",
+  105: "syntax_error",
+  156: "syntax_error",
+  170: "syntax_error",
+  207: "invalid_object",
+  208: "invalid_object",
+  2812: "invalid_object",
+  4121: "invalid_object",
+  229: "permission_denied",
+  230: "permission_denied",
+  262: "permission_denied",
+  297: "permission_denied",
+  300: "permission_denied",
+  916: "permission_denied",
+  1205: "deadlock",
+};
+
+/**
+ * Creates the error thrown when a block refuses to run or keep an operation
+ * (read-only mode, statement policies, row limits)
+ */
+export function rejectionError(message: string): Error {
+  return Object.assign(new Error(message), { code: "EREJECTED" });
+}
+
+function categorize(error: any, sqlError: any): ErrorCategory {
+  if (error?.code === "EREJECTED") {
+    return "rejected";
+  }
+  if (sqlError) {
+    // 547 covers foreign key, reference and check constraints
+    if (sqlError.number === 547) {
+      return /CHECK constraint/i.test(sqlError.message)
+        ? "check_violation"
+        : "fk_violation";
+    }
+    const category = errorNumberCategories[sqlError.number];
+    if (category) {
+      return category;
+    }
+  }
+
+  for (const current of errorChain(error)) {
+    if (current.code === "ECANCEL") {
+      return "cancelled";
+    }
+    if (current.code === "ETIMEOUT" && current.name !== "ConnectionError") {
+      return "timeout";
+    }
+  }
+  if (isConnectionError(error)) {
+    return "connection";
+  }
+  if (isTransientError(error)) {
+    return "transient";
+  }
+  return "unknown";
+}
+
+/**
+ * Extracts the server error details from an error and the errors it wraps
+ */
+export function describeSqlError(error: any): SqlErrorInfo {
+  let sqlError: any = null;
+  for (const current of errorChain(error)) {
+    if (typeof current.number === "number") {
+      sqlError = current;
+      break;
+    }
+  }
+  let bulkError: any = null;
+  for (const current of errorChain(error)) {
+    if (typeof current.loadedRowCount === "number") {
+      bulkError = current;
+      break;
+    }
+  }
+
+  return {
+    category: categorize(error, sqlError),
+    message: String(error?.message || error),
+    code: error?.code || sqlError?.code || null,
+    number: sqlError?.number ?? null,
+    severity: sqlError?.class ?? null,
+    state: sqlError?.state ?? null,
+    lineNumber: sqlError?.lineNumber ?? null,
+    procedure: sqlError?.procName || null,
+    serverName: sqlError?.serverName || null,
+    ...(bulkError && {
+      loadedRowCount: bulkError.loadedRowCount,
+      loadedChunkCount: bulkError.loadedChunkCount,
+    }),
+  };
+}
+
+/**
+ * Rethrows an error, or emits its details on the "error" output when the
+ * block's errorHandling is set to "emit"
+ */
+export async function handleBlockError(
+  error: any,
+  errorHandling: unknown,
+): Promise<void> {
+  if (errorHandling !== "emit") {
+    throw error;
+  }
+  await events.emit(describeSqlError(error), { outputKey: "error" });
+}
+
+/**
+ * Schema of events on the "error" output
+ */
+export const sqlErrorSchema = {
+  type: "object",
+  properties: {
+    category: {
+      type: "string",
+      enum: [...errorCategories],
+      description: "Kind of failure, e.g. unique_violation or deadlock",
+    },
+    message: {
+      type: "string",
+      description: "Error message",
+    },
+    code: {
+      type: "string",
+      description: "Driver error code (e.g. EREQUEST, ETIMEOUT)",
+    },
+    number: {
+      type: "number",
+      description: "SQL Server error number",
+    },
+    severity: {
+      type: "number",
+      description: "SQL Server severity class",
+    },
+    state: {
+      type: "number",
+      description: "SQL Server error state",
+    },
+    lineNumber: {
+      type: "number",
+      description: "Line of the batch that raised the error",
+    },
+    procedure: {
+      type: "string",
+      description: "Procedure that raised the error, if any",
+    },
+    serverName: {
+      type: "string",
+      description: "Server that raised the error",
+    },
+    loadedRowCount: {
+      type: "number",
+      description:
+        "Bulk loads only: rows committed by the chunks before the failing one",
+    },
+    loadedChunkCount: {
+      type: "number",
+      description: "Bulk loads only: chunks committed before the failing one",
+    },
+  },
+  required: ["category", "message"],
+};
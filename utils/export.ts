@@ -0,0 +1,47 @@
+export const exportFormats = ["csv", "ndjson", "json"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const csvQuotingModes = ["minimal", "all"] as const;
+
+export interface CsvOptions {
+  delimiter: string;
+  // "minimal" quotes only values that need it, "all" every non-null value
+  quoting: (typeof csvQuotingModes)[number];
+  nullValue: string;
+}
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  json: "application/json",
+};
+
+/**
+ * Formats one serialized value as a CSV field. Nulls are written as the
+ * configured null value without quotes, so they differ from empty strings
+ * when every value is quoted.
+ */
+function formatCsvField(value: any, options: CsvOptions): string {
+  if (value === null || value === undefined) {
+    return options.nullValue;
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  const needsQuotes =
+    options.quoting === "all" ||
+    text.includes(options.delimiter) ||
+    /["\r\n]/.test(text) ||
+    text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a line of CSV fields, including the line break
+ */
+export function formatCsvLine(values: any[], options: CsvOptions): string {
+  return (
+    values
+      .map((value) => formatCsvField(value, options))
+      .join(options.delimiter) + "\n"
+  );
+}
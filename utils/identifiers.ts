@@ -0,0 +1,31 @@
+/**
+ * Sanitizes a SQL identifier (table or schema name) to prevent SQL injection.
+ * Removes any existing brackets and wraps in square brackets.
+ */
+export function sanitizeIdentifier(name: string): string {
+  // Remove existing brackets and escape any remaining brackets within the name
+  const cleaned = name.replace(/[\[\]]/g, "");
+  return `[${cleaned}]`;
+}
+
+/**
+ * Parses and sanitizes a table name that may include schema (e.g., 'dbo.users' or 'users')
+ */
+export function sanitizeTableName(tableName: string): string {
+  const parts = tableName.split(".");
+  return parts.map(sanitizeIdentifier).join(".");
+}
+
+/**
+ * Splits a table name that may include schema into its parts, defaulting to the dbo schema
+ */
+export function parseTableName(tableName: string): {
+  schema: string;
+  table: string;
+} {
+  const parts = tableName.split(".").map((part) => part.replace(/[\[\]]/g, ""));
+  if (parts.length === 1) {
+    return { schema: "dbo", table: parts[0] };
+  }
+  return { schema: parts[parts.length - 2], table: parts[parts.length - 1] };
+}
@@ -0,0 +1,265 @@
+import { ColumnInfo } from "./catalog.ts";
+
+export const importFormats = ["csv", "ndjson"] as const;
+export type ImportFormat = (typeof importFormats)[number];
+
+/**
+ * A parsed input record with the line it starts on, for error reporting
+ */
+export interface ImportRecord {
+  line: number;
+  values: any[];
+}
+
+const integerRanges: Record<string, [bigint, bigint]> = {
+  tinyint: [0n, 255n],
+  smallint: [-32768n, 32767n],
+  int: [-2147483648n, 2147483647n],
+  bigint: [-9223372036854775808n, 9223372036854775807n],
+};
+
+const uuidPattern =
+  /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+/**
+ * Parses CSV text (RFC 4180) into records of fields. Quoted fields may
+ * contain delimiters, doubled quotes and line breaks. Unquoted fields equal
+ * to nullValue become null, so a quoted "" stays an empty string.
+ */
+export function parseCsv(
+  text: string,
+  delimiter: string,
+  nullValue: string,
+): ImportRecord[] {
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error(
+      "CSV delimiter must be a single character other than a quote or line break",
+    );
+  }
+
+  const records: ImportRecord[] = [];
+  let fields: any[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip a byte order mark
+
+  const endField = () => {
+    fields.push(!quoted && field === nullValue ? null : field);
+    field = "";
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    records.push({ line: recordLine, values: fields });
+    fields = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      // Blank lines are skipped
+      if (fields.length > 0 || field !== "" || quoted) {
+        endRecord();
+      }
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (fields.length > 0 || field !== "" || quoted) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Parses NDJSON text into one record per non-blank line. Lines that are not
+ * JSON objects are returned with an error instead of values.
+ */
+export function parseNdjson(
+  text: string,
+): { line: number; value?: Record<string, any>; error?: string }[] {
+  const results: {
+    line: number;
+    value?: Record<string, any>;
+    error?: string;
+  }[] = [];
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (content.trim() === "") return;
+    const line = index + 1;
+    try {
+      const value = JSON.parse(content);
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        results.push({ line, error: "Line is not a JSON object" });
+      } else {
+        results.push({ line, value });
+      }
+    } catch (error: any) {
+      results.push({ line, error: `Invalid JSON: ${error.message}` });
+    }
+  });
+  return results;
+}
+
+/**
+ * Number of characters a string column holds, or null for (max)
+ */
+function getCharacterLimit(column: ColumnInfo, type: string): number | null {
+  if (column.maxLength === -1 || type === "text" || type === "ntext") {
+    return null;
+  }
+  // max_length is in bytes, two per character for Unicode types
+  return type.startsWith("n") ? column.maxLength / 2 : column.maxLength;
+}
+
+function parseDate(value: any, type: string): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  let text = String(value).trim();
+  if (type === "time") {
+    text = `1970-01-01T${text}`;
+  }
+  // Values without a zone are taken as UTC, like the driver does when reading
+  if (/T|\s\d/.test(text) && !/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    text = `${text.replace(" ", "T")}Z`;
+  }
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`'${value}' is not a valid ${type}`);
+  }
+  return date;
+}
+
+/**
+ * Converts an input value (a CSV string or a JSON value) into the value bulk
+ * copy expects for a column, using the column's catalog type. Throws with
+ * the reason when the value does not fit.
+ */
+export function coerceValue(value: any, column: ColumnInfo): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const type = column.systemType.toLowerCase();
+  const text = typeof value === "string" ? value.trim() : value;
+
+  switch (type) {
+    case "bit": {
+      const normalized = String(text).toLowerCase();
+      if (["1", "true"].includes(normalized)) return true;
+      if (["0", "false"].includes(normalized)) return false;
+      throw new Error(`'${value}' is not a valid bit`);
+    }
+    case "tinyint":
+    case "smallint":
+    case "int":
+    case "bigint": {
+      if (!/^-?\d+$/.test(String(text))) {
+        throw new Error(`'${value}' is not a valid ${type}`);
+      }
+      const [min, max] = integerRanges[type];
+      const parsed = BigInt(text);
+      if (parsed < min || parsed > max) {
+        throw new Error(`${value} is out of range for ${type}`);
+      }
+      return type === "bigint" ? parsed.toString() : Number(parsed);
+    }
+    case "decimal":
+    case "numeric":
+    case "money":
+    case "smallmoney":
+    case "float":
+    case "real": {
+      const parsed = typeof text === "number" ? text : Number(text);
+      if (text === "" || !Number.isFinite(parsed)) {
+        throw new Error(`'${value}' is not a valid ${type}`);
+      }
+      if (type === "decimal" || type === "numeric") {
+        const integerPart = Math.trunc(Math.abs(parsed));
+        const integerDigits =
+          integerPart === 0 ? 0 : integerPart.toString().length;
+        if (integerDigits > column.numericPrecision - column.numericScale) {
+          throw new Error(
+            `${value} is out of range for ${type}(${column.numericPrecision},${column.numericScale})`,
+          );
+        }
+      }
+      return parsed;
+    }
+    case "char":
+    case "varchar":
+    case "nchar":
+    case "nvarchar":
+    case "text":
+    case "ntext":
+    case "xml": {
+      const stringValue =
+        typeof value === "object" ? JSON.stringify(value) : String(value);
+      const limit = type === "xml" ? null : getCharacterLimit(column, type);
+      if (limit !== null && stringValue.length > limit) {
+        throw new Error(
+          `Value of ${stringValue.length} characters exceeds the column length of ${limit}`,
+        );
+      }
+      return stringValue;
+    }
+    case "date":
+    case "datetime":
+    case "datetime2":
+    case "smalldatetime":
+    case "datetimeoffset":
+    case "time":
+      return parseDate(text, type);
+    case "uniqueidentifier":
+      if (!uuidPattern.test(String(text))) {
+        throw new Error(`'${value}' is not a valid uniqueidentifier`);
+      }
+      return String(text).replace(/[{}]/g, "");
+    case "binary":
+    case "varbinary": {
+      // Hex with a 0x prefix, otherwise base64
+      const buffer = /^0x[0-9a-f]*$/i.test(String(text))
+        ? Buffer.from(String(text).slice(2), "hex")
+        : Buffer.from(String(text), "base64");
+      if (column.maxLength !== -1 && buffer.length > column.maxLength) {
+        throw new Error(
+          `Value of ${buffer.length} bytes exceeds the column length of ${column.maxLength}`,
+        );
+      }
+      return buffer;
+    }
+    default:
+      return value;
+  }
+}
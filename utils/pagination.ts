@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import { sanitizeIdentifier } from "./identifiers.ts";
+import { formatPreciseTimestamp } from "./serialize.ts";
+
+export type PaginationMode = "offset" | "keyset";
+
+interface OrderColumn {
+  name: string;
+  descending: boolean;
+}
+
+interface ContinuationToken {
+  mode: PaginationMode;
+  // Fingerprint of the query and ordering the token was issued for
+  query: string;
+  page: number;
+  offset?: number;
+  keys?: any[];
+}
+
+export interface PageQuery {
+  sql: string;
+  parameters: Record<string, any>;
+  page: number;
+}
+
+/**
+ * Parses ORDER BY entries such as "id" or "created_at desc"
+ */
+function parseOrderBy(orderBy: string[]): OrderColumn[] {
+  if (!orderBy || orderBy.length === 0) {
+    throw new Error("Pagination requires at least one Order By column");
+  }
+  return orderBy.map((entry) => {
+    const match = /^\s*(.+?)(?:\s+(asc|desc))?\s*$/i.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid Order By entry: ${entry}`);
+    }
+    return {
+      name: match[1].replace(/[\[\]]/g, ""),
+      descending: (match[2] || "").toLowerCase() === "desc",
+    };
+  });
+}
+
+function fingerprint(query: string, orderBy: string[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([query, orderBy]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function decodeToken(
+  token: string,
+  mode: PaginationMode,
+  query: string,
+  orderBy: string[],
+): ContinuationToken {
+  let decoded: ContinuationToken;
+  try {
+    decoded = JSON.parse(Buffer.from(token, "base64").toString("utf8"));
+  } catch {
+    throw new Error("Invalid continuation token");
+  }
+  if (decoded.mode !== mode || decoded.query !== fingerprint(query, orderBy)) {
+    throw new Error(
+      "Continuation token was issued for a different query, ordering or pagination mode",
+    );
+  }
+  return decoded;
+}
+
+/**
+ * Wraps a query to fetch one page plus one extra row, which tells whether
+ * another page follows. The query must be a single SELECT without ORDER BY.
+ */
+export function buildPageQuery(
+  query: string,
+  mode: PaginationMode,
+  orderBy: string[],
+  pageSize: number,
+  continuationToken?: string,
+): PageQuery {
+  const columns = parseOrderBy(orderBy);
+  const token = continuationToken
+    ? decodeToken(continuationToken, mode, query, orderBy)
+    : null;
+  const orderClause = columns
+    .map(
+      (col) =>
+        `${sanitizeIdentifier(col.name)}${col.descending ? " DESC" : " ASC"}`,
+    )
+    .join(", ");
+
+  if (mode === "offset") {
+    return {
+      sql: `SELECT * FROM (${query}) AS page_source ORDER BY ${orderClause} OFFSET @__pageOffset ROWS FETCH NEXT @__pageFetch ROWS ONLY`,
+      parameters: {
+        __pageOffset: token?.offset ?? 0,
+        __pageFetch: pageSize + 1,
+      },
+      page: token ? token.page : 1,
+    };
+  }
+
+  // Rows after the last key: (a > @k0) OR (a = @k0 AND b > @k1) ...
+  const parameters: Record<string, any> = { __pageFetch: pageSize + 1 };
+  let where = "";
+  if (token?.keys) {
+    const conditions = columns.map((col, i) => {
+      const equalities = columns
+        .slice(0, i)
+        .map((prev, j) => `${sanitizeIdentifier(prev.name)} = @__pageKey${j}`);
+      const comparison = `${sanitizeIdentifier(col.name)} ${col.descending ? "<" : ">"} @__pageKey${i}`;
+      return `(${[...equalities, comparison].join(" AND ")})`;
+    });
+    token.keys.forEach((key, i) => {
+      parameters[`__pageKey${i}`] = key;
+    });
+    where = ` WHERE ${conditions.join(" OR ")}`;
+  }
+
+  return {
+    sql: `SELECT TOP (@__pageFetch) * FROM (${query}) AS page_source${where} ORDER BY ${orderClause}`,
+    parameters,
+    page: token ? token.page : 1,
+  };
+}
+
+/**
+ * Creates the token that fetches the page after the given rows
+ */
+export function createContinuationToken(
+  query: string,
+  mode: PaginationMode,
+  orderBy: string[],
+  page: number,
+  pageSize: number,
+  rows: any[],
+): string {
+  const token: ContinuationToken = {
+    mode,
+    query: fingerprint(query, orderBy),
+    page: page + 1,
+  };
+
+  if (mode === "offset") {
+    token.offset = page * pageSize;
+  } else {
+    const lastRow = rows[rows.length - 1];
+    token.keys = parseOrderBy(orderBy).map((col) => {
+      if (!(col.name in lastRow)) {
+        throw new Error(
+          `Order By column ${col.name} must be returned by the query for keyset pagination`,
+        );
+      }
+      const value = lastRow[col.name];
+      // A NULL key would compare as unknown and end the pages early
+      if (value === null || value === undefined) {
+        throw new Error(
+          `Order By column ${col.name} is NULL in the last row of the page; keyset pagination needs non-null Order By columns`,
+        );
+      }
+      if (value instanceof Date) {
+        return formatPreciseTimestamp(value);
+      }
+      return typeof value === "bigint" ? value.toString() : value;
+    });
+  }
+
+  return Buffer.from(JSON.stringify(token), "utf8").toString("base64");
+}
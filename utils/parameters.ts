@@ -0,0 +1,255 @@
+import * as sql from "mssql";
+import { parseSqlType, supportedSqlTypes } from "./sqlTypes.ts";
+import { formatColumnType, getTableTypeColumns, Queryable } from "./catalog.ts";
+import { parseTableName, sanitizeIdentifier } from "./identifiers.ts";
+
+/**
+ * A parameter with an explicit SQL type, e.g. { value: "ABC", type: "varchar(50)" }
+ */
+export interface TypedParameter {
+  value: any;
+  type: string;
+}
+
+/**
+ * Checks whether a parameter value uses the typed { value, type } form
+ */
+export function isTypedParameter(value: any): value is TypedParameter {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof value.type === "string" &&
+    "value" in value
+  );
+}
+
+/**
+ * Adds user-defined parameters to a request. Plain values let mssql infer the
+ * SQL type, while the typed form binds the value with the declared type.
+ */
+export function bindParameters(
+  request: sql.Request,
+  parameters: Record<string, any> | undefined,
+): void {
+  for (const [name, value] of Object.entries(parameters || {})) {
+    if (isTypedParameter(value)) {
+      let type: sql.ISqlType;
+      try {
+        type = parseSqlType(value.type);
+      } catch (error: any) {
+        throw new Error(`Parameter @${name}: ${error.message}`);
+      }
+      request.input(name, type, value.value);
+    } else {
+      request.input(name, value);
+    }
+  }
+}
+
+/**
+ * Whether a type declaration names a scalar SQL type rather than a table type
+ */
+function isScalarType(declaration: string): boolean {
+  const name = /^\s*([a-z_0-9]+)/i.exec(declaration)?.[1]?.toLowerCase();
+  return (
+    !!name && supportedSqlTypes.includes(name) && !declaration.includes(".")
+  );
+}
+
+/**
+ * Picks a column type that fits every non-null value of an ad-hoc table column
+ */
+function inferColumnType(values: any[]): string {
+  const present = values.filter(
+    (value) => value !== null && value !== undefined,
+  );
+  if (present.length === 0) {
+    return "nvarchar(max)";
+  }
+  if (present.every((value) => typeof value === "boolean")) {
+    return "bit";
+  }
+  if (
+    present.every(
+      (value) => typeof value === "bigint" || Number.isInteger(value),
+    )
+  ) {
+    return present.every(
+      (value) => typeof value !== "bigint" && Math.abs(value) <= 2147483647,
+    )
+      ? "int"
+      : "bigint";
+  }
+  if (present.every((value) => typeof value === "number")) {
+    return "float";
+  }
+  const longest = Math.max(...present.map((value) => String(value).length));
+  return longest <= 4000 ? "nvarchar(4000)" : "nvarchar(max)";
+}
+
+/**
+ * Binds an array as a table-valued parameter of a named user-defined table type
+ */
+async function bindTableType(
+  request: sql.Request,
+  target: Queryable,
+  name: string,
+  typeName: string,
+  rows: any[],
+): Promise<void> {
+  const { schema, table: type } = parseTableName(typeName);
+  const columns = (await getTableTypeColumns(target, schema, type)).filter(
+    (col) => !col.isIdentity && !col.isComputed,
+  );
+  if (columns.length === 0) {
+    throw new Error(
+      `Parameter @${name}: table type ${schema}.${type} not found`,
+    );
+  }
+
+  const tvp = new sql.Table(`${schema}.${type}`);
+  for (const column of columns) {
+    let type: sql.ISqlType;
+    try {
+      type = parseSqlType(formatColumnType(column));
+    } catch (error: any) {
+      throw new Error(
+        `Parameter @${name}, column ${column.name}: ${error.message}`,
+      );
+    }
+    tvp.columns.add(column.name, type, { nullable: column.nullable });
+  }
+
+  for (const row of rows) {
+    if (row !== null && typeof row === "object" && !Array.isArray(row)) {
+      // Match object keys to columns case-insensitively, missing keys are NULL
+      const values = columns.map((col) => {
+        const key = Object.keys(row).find(
+          (k) => k.toLowerCase() === col.name.toLowerCase(),
+        );
+        return key === undefined ? null : row[key];
+      });
+      tvp.rows.add(...values);
+    } else if (columns.length === 1) {
+      tvp.rows.add(row);
+    } else {
+      throw new Error(
+        `Parameter @${name}: rows of table type ${schema}.${type} must be objects`,
+      );
+    }
+  }
+
+  request.input(name, tvp);
+}
+
+/**
+ * Binds an array as JSON and returns a prelude that unpacks it into a table
+ * variable of the same name, so queries can JOIN @name without a table type.
+ * Arrays of scalars become a single "value" column.
+ */
+function bindAdHocTable(
+  request: sql.Request,
+  name: string,
+  rows: any[],
+  declaredType?: string,
+): string {
+  const isObjectRows = rows.some(
+    (row) => row !== null && typeof row === "object" && !Array.isArray(row),
+  );
+
+  let columns: { name: string; type: string }[];
+  if (isObjectRows) {
+    const names = [...new Set(rows.flatMap((row) => Object.keys(row || {})))];
+    columns = names.map((column) => ({
+      name: column,
+      type: inferColumnType(rows.map((row) => row?.[column])),
+    }));
+  } else {
+    columns = [{ name: "value", type: declaredType || inferColumnType(rows) }];
+  }
+  if (columns.length === 0) {
+    throw new Error(`Parameter @${name}: cannot infer columns from the array`);
+  }
+
+  // Validates the declarations before they are written into the query
+  for (const column of columns) {
+    try {
+      parseSqlType(column.type);
+    } catch (error: any) {
+      throw new Error(`Parameter @${name}: ${error.message}`);
+    }
+  }
+
+  const jsonName = `__${name}_json`;
+  request.input(
+    jsonName,
+    sql.NVarChar(sql.MAX),
+    JSON.stringify(rows, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    ),
+  );
+
+  const definitions = columns
+    .map((column) => `${sanitizeIdentifier(column.name)} ${column.type}`)
+    .join(", ");
+  const withClause = columns
+    .map((column) => {
+      const path = isObjectRows
+        ? `$."${column.name.replace(/"/g, '\\"').replace(/'/g, "''")}"`
+        : "$";
+      return `${sanitizeIdentifier(column.name)} ${column.type} '${path}'`;
+    })
+    .join(", ");
+
+  return `DECLARE @${name} TABLE (${definitions}); INSERT INTO @${name} SELECT * FROM OPENJSON(@${jsonName}) WITH (${withClause}); `;
+}
+
+/**
+ * Adds parameters to a request like bindParameters, and also accepts arrays,
+ * which become table-valued parameters. An array typed with a table type
+ * name ({ value: [...], type: "dbo.IdList" }) is bound as that user-defined
+ * table type; any other array is unpacked into a table variable by a prelude
+ * that is prepended to the returned query. The prelude runs with NOCOUNT on,
+ * so its inserts add no rows affected, and shares the query's first line, so
+ * error line numbers still match the query.
+ */
+export async function bindQueryParameters(
+  request: sql.Request,
+  target: Queryable,
+  query: string,
+  parameters: Record<string, any> | undefined,
+): Promise<string> {
+  const scalars: Record<string, any> = {};
+  let prelude = "";
+
+  for (const [name, value] of Object.entries(parameters || {})) {
+    const typed = isTypedParameter(value);
+    const raw = typed ? value.value : value;
+    if (!Array.isArray(raw)) {
+      scalars[name] = value;
+      continue;
+    }
+
+    if (!/^\w+$/.test(name)) {
+      throw new Error(`Parameter @${name}: invalid name for a table parameter`);
+    }
+    if (typed && !isScalarType(value.type)) {
+      await bindTableType(request, target, name, value.type, raw);
+    } else {
+      prelude += bindAdHocTable(
+        request,
+        name,
+        raw,
+        typed ? value.type : undefined,
+      );
+    }
+  }
+
+  bindParameters(request, scalars);
+  if (!prelude) {
+    return query;
+  }
+  // Pooled connections keep session settings, so NOCOUNT is restored on failure too
+  return `SET NOCOUNT ON; BEGIN TRY ${prelude}END TRY BEGIN CATCH SET NOCOUNT OFF; THROW; END CATCH; SET NOCOUNT OFF; ${query}`;
+}
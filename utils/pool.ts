@@ -1,10 +1,37 @@
 import * as sql from "mssql";
 import crypto from "crypto";
+import { createAuthenticationConfig } from "./auth.ts";
 
-// Global pool instance
-let globalPool: sql.ConnectionPool | null = null;
-let currentConfigHash: string | null = null;
-let poolInitializationPromise: Promise<sql.ConnectionPool> | null = null;
+/**
+ * Which server a pool connects to: the primary, or a readable secondary
+ * reached through read-only routing (ApplicationIntent=ReadOnly)
+ */
+export type PoolRoute = "primary" | "replica";
+
+/**
+ * Selects which pool a block runs against
+ */
+export interface PoolOptions {
+  route?: PoolRoute;
+  // Overrides the database from the app config (same server and credentials)
+  database?: string;
+}
+
+interface PoolEntry {
+  pool: sql.ConnectionPool | null;
+  initializationPromise: Promise<sql.ConnectionPool> | null;
+  lastUsed: number;
+}
+
+// Pools that have been idle this long with no borrowed connections are closed
+const IDLE_POOL_TTL_MS = 5 * 60 * 1000;
+const EVICTION_INTERVAL_MS = 60 * 1000;
+
+// Global pool registry keyed by config hash, route and database
+const pools = new Map<string, PoolEntry>();
+// Pools taken out of the registry, closed once their running requests finish
+const drainingPools = new Set<sql.ConnectionPool>();
+let evictionTimer: NodeJS.Timeout | null = null;
 
 /**
  * Creates a hash of the configuration to detect changes
@@ -14,13 +41,20 @@ function getConfigHash(appConfig: any): string {
     server: appConfig.server,
     port: appConfig.port,
     database: appConfig.database,
+    authenticationType: appConfig.authenticationType,
     username: appConfig.username,
     password: appConfig.password,
+    domain: appConfig.domain,
+    tenantId: appConfig.tenantId,
+    clientId: appConfig.clientId,
+    clientSecret: appConfig.clientSecret,
+    accessToken: appConfig.accessToken,
     encrypt: appConfig.encrypt,
     trustServerCertificate: appConfig.trustServerCertificate,
     caCertificate: appConfig.caCertificate,
     connectionTimeout: appConfig.connectionTimeout,
     requestTimeout: appConfig.requestTimeout,
+    multiSubnetFailover: appConfig.multiSubnetFailover,
   };
   return crypto
     .createHash("sha256")
@@ -28,16 +62,28 @@ function getConfigHash(appConfig: any): string {
     .digest("hex");
 }
 
+/**
+ * Registry key of the pool for a config, route and database
+ */
+function getPoolKey(appConfig: any, options: PoolOptions): string {
+  const route = options.route || "primary";
+  const database = options.database || (appConfig.database as string);
+  return `${getConfigHash(appConfig)}:${route}:${database}`;
+}
+
 /**
  * Creates pool configuration from app config
  */
-function createPoolConfig(appConfig: any): sql.config {
+export function createPoolConfig(
+  appConfig: any,
+  route: PoolRoute = "primary",
+  database?: string,
+): sql.config {
   return {
     server: appConfig.server as string,
     port: appConfig.port as number,
-    database: appConfig.database as string,
-    user: appConfig.username as string,
-    password: appConfig.password as string | undefined,
+    database: database || (appConfig.database as string),
+    ...createAuthenticationConfig(appConfig),
     connectionTimeout: (appConfig.connectionTimeout as number) * 1000,
     requestTimeout: (appConfig.requestTimeout as number) * 1000,
     pool: {
@@ -51,63 +97,167 @@ function createPoolConfig(appConfig: any): sql.config {
       cryptoCredentialsDetails: appConfig.caCertificate
         ? { ca: appConfig.caCertificate as string }
         : undefined,
+      readOnlyIntent: route === "replica",
+      multiSubnetFailover: Boolean(appConfig.multiSubnetFailover),
     },
   };
 }
 
 /**
- * Gets or creates the global pool instance.
- * This ensures all blocks share the same pool and handles config changes.
+ * Closes pools that have not been handed out recently and have no connections
+ * in use. Pools for an outdated config are left to drain the same way, so a
+ * config change never interrupts requests still running on the old pool.
  */
-export async function getPool(appConfig: any): Promise<sql.ConnectionPool> {
-  const configHash = getConfigHash(appConfig);
+async function evictIdlePools(): Promise<void> {
+  const now = Date.now();
+
+  for (const pool of drainingPools) {
+    if (pool.borrowed > 0 || pool.pending > 0) {
+      continue;
+    }
+    drainingPools.delete(pool);
+    try {
+      await pool.close();
+    } catch (error) {
+      console.error("Error closing drained pool:", error);
+    }
+  }
 
-  // If config hasn't changed and we have a pool, return it
-  if (globalPool && currentConfigHash === configHash && globalPool.connected) {
-    return globalPool;
+  for (const [key, entry] of pools) {
+    const { pool } = entry;
+    if (!pool) {
+      // Drop entries whose initialization failed
+      if (!entry.initializationPromise) {
+        pools.delete(key);
+      }
+      continue;
+    }
+    if (
+      entry.initializationPromise ||
+      now - entry.lastUsed < IDLE_POOL_TTL_MS ||
+      pool.borrowed > 0 ||
+      pool.pending > 0
+    ) {
+      continue;
+    }
+
+    pools.delete(key);
+    try {
+      await pool.close();
+    } catch (error) {
+      console.error("Error closing idle pool:", error);
+    }
+  }
+
+  if (pools.size === 0 && drainingPools.size === 0 && evictionTimer) {
+    clearInterval(evictionTimer);
+    evictionTimer = null;
+  }
+}
+
+function startEvictionTimer(): void {
+  if (!evictionTimer) {
+    evictionTimer = setInterval(() => {
+      evictIdlePools().catch((error) =>
+        console.error("Error evicting idle pools:", error),
+      );
+    }, EVICTION_INTERVAL_MS);
+    evictionTimer.unref();
+  }
+}
+
+/**
+ * Gets or creates the pool for a config, route and database.
+ * This ensures all blocks share pools and handles config changes.
+ */
+export async function getPool(
+  appConfig: any,
+  options: PoolOptions = {},
+): Promise<sql.ConnectionPool> {
+  const route = options.route || "primary";
+  const database = options.database || (appConfig.database as string);
+
+  if (route === "replica" && !appConfig.readReplicaEnabled) {
+    throw new Error(
+      "Read replica routing is not enabled in the app configuration",
+    );
+  }
+
+  const key = getPoolKey(appConfig, options);
+  let entry = pools.get(key);
+  if (!entry) {
+    entry = { pool: null, initializationPromise: null, lastUsed: Date.now() };
+    pools.set(key, entry);
+  }
+  entry.lastUsed = Date.now();
+
+  startEvictionTimer();
+
+  // If we already have a connected pool, return it
+  if (entry.pool && entry.pool.connected) {
+    return entry.pool;
   }
 
   // If initialization is already in progress, wait for it
-  if (poolInitializationPromise && currentConfigHash === configHash) {
-    return poolInitializationPromise;
+  if (entry.initializationPromise) {
+    return entry.initializationPromise;
   }
 
   // Start initialization (this prevents multiple simultaneous initializations)
-  poolInitializationPromise = (async () => {
+  const currentEntry = entry;
+  currentEntry.initializationPromise = (async () => {
     try {
-      // Close the old pool if config changed
-      if (globalPool && currentConfigHash !== configHash) {
-        console.log("SQL Server config changed, recreating pool");
-        try {
-          await globalPool.close();
-        } catch (error) {
-          console.error("Error closing old pool:", error);
-        }
-        globalPool = null;
+      // Replace a pool that lost its connection
+      if (currentEntry.pool) {
+        currentEntry.pool.close().catch((error) => {
+          console.error("Error closing disconnected pool:", error);
+        });
+        currentEntry.pool = null;
       }
 
       // Create new pool
-      const poolConfig = createPoolConfig(appConfig);
+      const poolConfig = createPoolConfig(appConfig, route, database);
       const newPool = new sql.ConnectionPool(poolConfig);
 
       // Set up error handlers
       newPool.on("error", (err) => {
-        console.error("Unexpected SQL Server pool error:", err);
+        console.error(`Unexpected SQL Server ${route} pool error:`, err);
       });
 
       // Connect the pool
       await newPool.connect();
 
-      // Store the new pool and config hash
-      globalPool = newPool;
-      currentConfigHash = configHash;
-
+      currentEntry.pool = newPool;
       return newPool;
     } finally {
       // Clear the initialization promise when done
-      poolInitializationPromise = null;
+      currentEntry.initializationPromise = null;
     }
   })();
 
-  return poolInitializationPromise;
+  return currentEntry.initializationPromise;
+}
+
+/**
+ * Drops the pool for a config, route and database so the next getPool call
+ * connects again. Used when a connection turned out to be dead. Other blocks
+ * may still be running requests on the old pool, so it is only closed once
+ * they finish, like an idle pool.
+ */
+export async function resetPool(
+  appConfig: any,
+  options: PoolOptions = {},
+): Promise<void> {
+  const key = getPoolKey(appConfig, options);
+  const entry = pools.get(key);
+  if (!entry || entry.initializationPromise) {
+    return;
+  }
+
+  pools.delete(key);
+  if (entry.pool) {
+    drainingPools.add(entry.pool);
+    startEvictionTimer();
+    await evictIdlePools();
+  }
 }
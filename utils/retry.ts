@@ -0,0 +1,136 @@
+import * as sql from "mssql";
+import { getPool, PoolOptions, resetPool } from "./pool.ts";
+
+/**
+ * Server error numbers that are safe to retry after a delay
+ */
+const transientErrorNumbers = new Set([
+  1205, // Deadlock victim
+  10928, // Azure SQL resource limit reached
+  10929, // Azure SQL minimum resources not guaranteed
+  40197, // Azure SQL service error while processing the request
+  40501, // Azure SQL service is busy
+  40613, // Azure SQL database not currently available
+  49918, // Not enough resources to process the request
+  49919, // Too many create or update operations in progress
+  49920, // Too many operations in progress
+]);
+
+/**
+ * Driver error codes for connections that were lost or could not be opened
+ */
+const connectionErrorCodes = new Set([
+  "ESOCKET",
+  "ECONNCLOSED",
+  "ECONNRESET",
+  "ENOTOPEN",
+]);
+
+export interface RetryOptions {
+  // Set to false to run the operation only once
+  enabled?: boolean;
+  // Called before retrying; return false once a retry would repeat side effects
+  canRetry?: () => boolean;
+}
+
+export interface RetryResult<T> {
+  result: T;
+  attempts: number;
+}
+
+/**
+ * Walks an error and the errors it wraps (originalError, cause)
+ */
+export function* errorChain(error: any): Generator<any> {
+  const seen = new Set<any>();
+  while (error && !seen.has(error)) {
+    seen.add(error);
+    yield error;
+    error = error.originalError || error.cause;
+  }
+}
+
+/**
+ * Whether an error means the connection is dead and its pool should be rebuilt
+ */
+export function isConnectionError(error: any): boolean {
+  for (const current of errorChain(error)) {
+    if (connectionErrorCodes.has(current.code)) {
+      return true;
+    }
+    // A timeout while connecting, as opposed to a slow query
+    if (current.code === "ETIMEOUT" && current.name === "ConnectionError") {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether an error is transient, i.e. the same operation may succeed if retried
+ */
+export function isTransientError(error: any): boolean {
+  if (isConnectionError(error)) {
+    return true;
+  }
+  for (const current of errorChain(error)) {
+    if (transientErrorNumbers.has(current.number)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Delay before the given retry (1-based): exponential backoff capped at the
+ * maximum, with "equal jitter" so concurrent retries spread out
+ */
+function getRetryDelay(appConfig: any, retry: number): number {
+  const initialDelay = (appConfig.retryInitialDelay as number) ?? 200;
+  const maxDelay = (appConfig.retryMaxDelay as number) ?? 10000;
+  const delay = Math.min(maxDelay, initialDelay * 2 ** (retry - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Runs an operation against a pool, retrying transient errors with
+ * exponential backoff as configured in the app config. The pool is fetched
+ * for every attempt and rebuilt when the connection turned out to be dead.
+ */
+export async function withRetry<T>(
+  appConfig: any,
+  poolOptions: PoolOptions,
+  operation: (pool: sql.ConnectionPool, attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<RetryResult<T>> {
+  const maxAttempts =
+    options.enabled === false
+      ? 1
+      : Math.max(1, (appConfig.retryMaxAttempts as number) ?? 3);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const pool = await getPool(appConfig, poolOptions);
+      return { result: await operation(pool, attempt), attempts: attempt };
+    } catch (error: any) {
+      const retryable =
+        attempt < maxAttempts &&
+        isTransientError(error) &&
+        (!options.canRetry || options.canRetry());
+      if (!retryable) {
+        throw error;
+      }
+
+      if (isConnectionError(error)) {
+        await resetPool(appConfig, poolOptions);
+      }
+
+      const delay = getRetryDelay(appConfig, attempt);
+      console.warn(
+        `Transient SQL Server error (attempt ${attempt} of ${maxAttempts}), retrying in ${Math.round(delay)}ms:`,
+        error.message,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { maskSql } from "./sqlClassifier.ts";
+
+/**
+ * A batch of a script, as separated by GO
+ */
+export interface ScriptBatch {
+  sql: string;
+  // 1-based line of the script where the batch starts
+  line: number;
+  // Number of times to run the batch (GO n)
+  repeat: number;
+}
+
+// GO on a line of its own, with an optional repeat count
+const goLinePattern = /^\s*GO(?:\s+(\d+))?\s*;?\s*$/i;
+
+/**
+ * Replaces sqlcmd-style $(Name) variables. Like sqlcmd, names are matched
+ * case-insensitively and an undefined variable is an error.
+ */
+export function substituteVariables(
+  text: string,
+  variables: Record<string, any> = {},
+): string {
+  const values = new Map(
+    Object.entries(variables).map(([name, value]) => [
+      name.toLowerCase(),
+      value === null || value === undefined ? "" : String(value),
+    ]),
+  );
+
+  return text.replace(/\$\(([A-Za-z_][\w-]*)\)/g, (_, name: string) => {
+    const value = values.get(name.toLowerCase());
+    if (value === undefined) {
+      throw new Error(`Script variable $(${name}) is not defined`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Splits a script into batches on GO separators. GO inside comments and
+ * string literals is ignored, and batches that only contain whitespace or
+ * comments are dropped.
+ */
+export function splitScript(text: string): ScriptBatch[] {
+  const lines = text.split("\n");
+  // Masking keeps line breaks, so masked lines line up with the originals
+  const maskedLines = maskSql(text).split("\n");
+
+  const batches: ScriptBatch[] = [];
+  let start = 0;
+
+  const addBatch = (end: number, repeat: number) => {
+    if (maskedLines.slice(start, end).join("\n").trim() !== "") {
+      batches.push({
+        sql: lines.slice(start, end).join("\n"),
+        line: start + 1,
+        repeat,
+      });
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = goLinePattern.exec(maskedLines[i]);
+    if (!match) continue;
+
+    const repeat = match[1] ? parseInt(match[1], 10) : 1;
+    if (repeat < 1) {
+      throw new Error(`Invalid GO repeat count on line ${i + 1}`);
+    }
+    addBatch(i, repeat);
+    start = i + 1;
+  }
+  addBatch(lines.length, 1);
+
+  return batches;
+}
@@ -0,0 +1,180 @@
+import * as sql from "mssql";
+
+export const binaryFormats = ["base64", "hex"] as const;
+export const dateFormats = ["iso", "iso-without-offset"] as const;
+export const uuidCases = ["upper", "lower"] as const;
+
+export interface SerializationOptions {
+  binaryFormat: (typeof binaryFormats)[number];
+  dateFormat: (typeof dateFormats)[number];
+  uuidCase: (typeof uuidCases)[number];
+  parseJson: boolean;
+}
+
+// The parts of a result column's metadata that decide how its values are serialized
+export interface SerializedColumn {
+  type: any;
+}
+
+// Name SQL Server gives the single column of a FOR JSON result
+const FOR_JSON_COLUMN = "JSON_F52E2B61-18A1-11d1-B105-00805F49916B";
+
+const stringTypes = new Set(["char", "varchar", "nchar", "nvarchar", "text"]);
+
+/**
+ * Reads the serialization policies from the app configuration
+ */
+export function getSerializationOptions(appConfig: any): SerializationOptions {
+  return {
+    binaryFormat: appConfig.binaryFormat === "hex" ? "hex" : "base64",
+    dateFormat:
+      appConfig.dateFormat === "iso-without-offset"
+        ? "iso-without-offset"
+        : "iso",
+    uuidCase: appConfig.uuidCase === "lower" ? "lower" : "upper",
+    parseJson: Boolean(appConfig.parseJson),
+  };
+}
+
+/**
+ * SQL type name of a result column, from the mssql type factory it carries
+ */
+function getColumnType(
+  column: SerializedColumn | undefined,
+): string | undefined {
+  const type = column?.type as any;
+  return type?.declaration ?? type?.type?.declaration;
+}
+
+function parseJsonString(value: string): any {
+  const trimmed = value.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Formats a date read from the server as an ISO 8601 UTC string. Values of
+ * datetime2, datetimeoffset and time carry their digits below a millisecond
+ * beside the Date, which are kept so the string matches the stored value.
+ */
+export function formatPreciseTimestamp(value: Date): string {
+  const iso = value.toISOString();
+  const nanosecondsDelta = (value as any).nanosecondsDelta;
+  if (typeof nanosecondsDelta !== "number") {
+    return iso;
+  }
+  const extraDigits = String(Math.round(nanosecondsDelta * 1e7)).padStart(
+    4,
+    "0",
+  );
+  return `${iso.slice(0, -1)}${extraDigits}Z`;
+}
+
+/**
+ * Converts a result value into a JSON-safe form following the configured
+ * policies. Without column metadata the type is judged from the value alone.
+ */
+export function serializeValue(
+  value: any,
+  column: SerializedColumn | undefined,
+  options: SerializationOptions,
+): any {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const type = getColumnType(column);
+
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return value.toString(options.binaryFormat);
+  }
+
+  if (value instanceof Date) {
+    // The driver reads values without a time zone as UTC, so the UTC
+    // fields hold the stored date and time
+    const iso = formatPreciseTimestamp(value);
+    if (type === "date") {
+      return iso.slice(0, 10);
+    }
+    if (type === "time") {
+      return iso.slice(11, -1);
+    }
+    return options.dateFormat === "iso-without-offset" ? iso.slice(0, -1) : iso;
+  }
+
+  if (typeof value === "string") {
+    if (type === "uniqueidentifier") {
+      return options.uuidCase === "lower"
+        ? value.toLowerCase()
+        : value.toUpperCase();
+    }
+    if (options.parseJson && (!type || stringTypes.has(type))) {
+      return parseJsonString(value);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Serializes every value of a row
+ */
+export function serializeRow(
+  row: Record<string, any>,
+  columns: sql.IColumnMetadata | undefined,
+  options: SerializationOptions,
+): Record<string, any> {
+  const serializedRow: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    // Chunks of a streamed FOR JSON result are not valid JSON on their own
+    if (key === FOR_JSON_COLUMN) {
+      serializedRow[key] = value;
+      continue;
+    }
+    serializedRow[key] = serializeValue(value, columns?.[key], options);
+  }
+  return serializedRow;
+}
+
+/**
+ * Serializes the rows of a buffered result set. With JSON parsing enabled, a
+ * FOR JSON result, which the server splits across rows, is joined and parsed
+ * into the rows it describes.
+ */
+export function serializeRecordset(
+  recordset: any[],
+  columns: sql.IColumnMetadata | undefined,
+  options: SerializationOptions,
+): any[] {
+  if (options.parseJson && isForJsonResult(recordset, columns)) {
+    const json = recordset.map((row) => row[FOR_JSON_COLUMN]).join("");
+    if (json === "") {
+      return [];
+    }
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  }
+  return recordset.map((row) => serializeRow(row, columns, options));
+}
+
+function isForJsonResult(
+  recordset: any[],
+  columns: sql.IColumnMetadata | undefined,
+): boolean {
+  const names = columns
+    ? Object.keys(columns)
+    : recordset.length > 0
+      ? Object.keys(recordset[0])
+      : [];
+  return names.length === 1 && names[0] === FOR_JSON_COLUMN;
+}
@@ -0,0 +1,308 @@
+/**
+ * Kinds of statements recognised by classifySql
+ */
+export const statementKinds = [
+  "read",
+  "dml",
+  "ddl",
+  "exec",
+  "dcl",
+  "transaction",
+  "admin",
+  "multi_batch",
+] as const;
+
+export type StatementKind = (typeof statementKinds)[number];
+
+export interface ClassifiedStatement {
+  kind: StatementKind;
+  keyword: string;
+  line: number;
+}
+
+export interface SqlClassification {
+  statements: ClassifiedStatement[];
+  kinds: StatementKind[];
+}
+
+const keywordKinds: Record<string, StatementKind> = {
+  SELECT: "read",
+  INSERT: "dml",
+  UPDATE: "dml",
+  DELETE: "dml",
+  MERGE: "dml",
+  BULK: "dml",
+  UPDATETEXT: "dml",
+  WRITETEXT: "dml",
+  SEND: "dml",
+  RECEIVE: "dml",
+  CREATE: "ddl",
+  ALTER: "ddl",
+  DROP: "ddl",
+  TRUNCATE: "ddl",
+  EXEC: "exec",
+  EXECUTE: "exec",
+  SP_EXECUTESQL: "exec",
+  GRANT: "dcl",
+  REVOKE: "dcl",
+  DENY: "dcl",
+  COMMIT: "transaction",
+  ROLLBACK: "transaction",
+  BACKUP: "admin",
+  RESTORE: "admin",
+  DBCC: "admin",
+  KILL: "admin",
+  SHUTDOWN: "admin",
+  RECONFIGURE: "admin",
+  CHECKPOINT: "admin",
+  SETUSER: "admin",
+  USE: "admin",
+};
+
+// Keywords that may open a batch besides those in keywordKinds. A batch that
+// starts with any other word is a procedure call without EXEC.
+const batchStartKeywords = new Set([
+  "WITH",
+  "DECLARE",
+  "SET",
+  "IF",
+  "ELSE",
+  "WHILE",
+  "BEGIN",
+  "END",
+  "BREAK",
+  "CONTINUE",
+  "GOTO",
+  "RETURN",
+  "WAITFOR",
+  "PRINT",
+  "RAISERROR",
+  "THROW",
+  "OPEN",
+  "FETCH",
+  "CLOSE",
+  "DEALLOCATE",
+  "SAVE",
+]);
+
+/**
+ * Replaces comments and string literals with spaces, keeping line breaks so
+ * positions still map to the original lines. Quoted identifiers are kept as
+ * placeholders so their contents are never mistaken for keywords.
+ */
+export function maskSql(text: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (char === "-" && next === "-") {
+      while (i < text.length && text[i] !== "\n") {
+        result += " ";
+        i++;
+      }
+    } else if (char === "/" && next === "*") {
+      // Block comments nest in T-SQL
+      let depth = 0;
+      do {
+        if (text[i] === "/" && text[i + 1] === "*") {
+          depth++;
+          result += "  ";
+          i += 2;
+        } else if (text[i] === "*" && text[i + 1] === "/") {
+          depth--;
+          result += "  ";
+          i += 2;
+        } else {
+          result += text[i] === "\n" ? "\n" : " ";
+          i++;
+        }
+      } while (i < text.length && depth > 0);
+    } else if (char === "'" || char === "[" || char === '"') {
+      const close = char === "[" ? "]" : char;
+      result += char === "'" ? " " : "_";
+      i++;
+      while (i < text.length) {
+        if (text[i] === close && text[i + 1] === close) {
+          result += "  ";
+          i += 2;
+        } else if (text[i] === close) {
+          break;
+        } else {
+          result += text[i] === "\n" ? "\n" : " ";
+          i++;
+        }
+      }
+      result += char === "'" ? " " : "_";
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Classifies the statements in a SQL batch by their leading keywords. This is a
+ * lexical check, not a parser: it looks at every keyword outside comments,
+ * strings and quoted identifiers, so it errs on the side of reporting writes.
+ */
+export function classifySql(text: string): SqlClassification {
+  const masked = maskSql(text);
+  const statements: ClassifiedStatement[] = [];
+
+  const lineAt = (index: number) => masked.slice(0, index).split("\n").length;
+
+  // GO on a line of its own separates batches (sqlcmd / SSMS syntax)
+  const goPattern = /^[ \t]*GO(?:[ \t]+\d+)?[ \t]*;?[ \t]*$/gim;
+  for (const match of masked.matchAll(goPattern)) {
+    statements.push({
+      kind: "multi_batch",
+      keyword: "GO",
+      line: lineAt(match.index!),
+    });
+  }
+
+  // SQL Server runs a procedure named as the first statement of a batch
+  // even without EXEC, e.g. "dbo.usp_purge" or "sp_configure 'x', 1"
+  const batchStarts = [
+    0,
+    ...[...masked.matchAll(goPattern)].map(
+      (match) => match.index! + match[0].length,
+    ),
+  ];
+  for (const start of batchStarts) {
+    const first = /^[\s;]*([A-Za-z_][\w$]*)/.exec(masked.slice(start));
+    if (!first) continue;
+    const word = first[1].toUpperCase();
+    if (!(word in keywordKinds) && !batchStartKeywords.has(word)) {
+      statements.push({
+        kind: "exec",
+        keyword: "EXEC (implicit)",
+        line: lineAt(start + first[0].length - first[1].length),
+      });
+    }
+  }
+
+  // Query hints such as OPTION (USE HINT ('...')) are not USE statements
+  const hintRanges: [number, number][] = [];
+  for (const match of masked.matchAll(/(?<![\w@#$.])OPTION\s*\(/gi)) {
+    let depth = 0;
+    let end = match.index! + match[0].length - 1;
+    for (; end < masked.length; end++) {
+      if (masked[end] === "(") depth++;
+      if (masked[end] === ")" && --depth === 0) break;
+    }
+    hintRanges.push([match.index!, end]);
+  }
+  const isQueryHint = (index: number) =>
+    hintRanges.some(([start, end]) => index > start && index < end);
+
+  // Words that are not part of a variable, temp table or qualified name
+  const words = [...masked.matchAll(/(?<![\w@#$.])[A-Za-z_][\w$]*/g)];
+  let afterOutput = false;
+  let afterFetch = false;
+  for (let w = 0; w < words.length; w++) {
+    const word = words[w][0].toUpperCase();
+    const previous = w > 0 ? words[w - 1][0].toUpperCase() : "";
+    const following = w + 1 < words.length ? words[w + 1][0].toUpperCase() : "";
+    const line = lineAt(words[w].index!);
+
+    if (
+      word === "BEGIN" &&
+      /^(TRAN|TRANSACTION|DISTRIBUTED)$/.test(following)
+    ) {
+      statements.push({
+        kind: "transaction",
+        keyword: "BEGIN TRANSACTION",
+        line,
+      });
+    } else if (word === "SAVE" && /^(TRAN|TRANSACTION)$/.test(following)) {
+      statements.push({
+        kind: "transaction",
+        keyword: "SAVE TRANSACTION",
+        line,
+      });
+    } else if (
+      (word === "ENABLE" || word === "DISABLE") &&
+      following === "TRIGGER"
+    ) {
+      statements.push({ kind: "ddl", keyword: `${word} TRIGGER`, line });
+    } else if (word === "USE" && isQueryHint(words[w].index!)) {
+      continue;
+    } else if (word === "NEXT" && following === "VALUE") {
+      // NEXT VALUE FOR advances a sequence
+      statements.push({ kind: "dml", keyword: "NEXT VALUE FOR", line });
+    } else if (word === "OUTPUT") {
+      afterOutput = true;
+    } else if (word === "FETCH") {
+      // A cursor FETCH, unlike OFFSET ... ROWS FETCH NEXT, may be followed by INTO @variables
+      afterFetch = previous !== "ROW" && previous !== "ROWS";
+    } else if (word === "INTO") {
+      // SELECT ... INTO creates a table, unlike INSERT INTO, MERGE INTO,
+      // OUTPUT ... INTO and FETCH ... INTO
+      if (
+        !afterOutput &&
+        !afterFetch &&
+        previous !== "INSERT" &&
+        previous !== "MERGE"
+      ) {
+        statements.push({ kind: "ddl", keyword: "SELECT INTO", line });
+      }
+      afterOutput = false;
+      afterFetch = false;
+    } else if (word in keywordKinds) {
+      if (word === "SELECT") {
+        afterFetch = false;
+      }
+      statements.push({ kind: keywordKinds[word], keyword: word, line });
+    }
+  }
+
+  statements.sort((a, b) => a.line - b.line);
+
+  return {
+    statements,
+    kinds: [...new Set(statements.map((statement) => statement.kind))],
+  };
+}
+
+/**
+ * Returns why a SQL batch is not a pure read, or null when it only reads
+ */
+export function findReadOnlyViolation(
+  classification: SqlClassification,
+): string | null {
+  const violation = classification.statements.find(
+    (statement) => statement.kind !== "read",
+  );
+  if (!violation) {
+    return null;
+  }
+  return violation.kind === "multi_batch"
+    ? `multiple batches (GO on line ${violation.line}) are not allowed`
+    : `${violation.keyword} on line ${violation.line} is a ${violation.kind} statement`;
+}
+
+/**
+ * Returns why a SQL batch breaks an allow or deny list of statement kinds, or null
+ */
+export function findStatementPolicyViolation(
+  classification: SqlClassification,
+  allowed: StatementKind[] | undefined,
+  denied: StatementKind[] | undefined,
+): string | null {
+  const violation = classification.statements.find(
+    (statement) =>
+      (allowed && allowed.length > 0 && !allowed.includes(statement.kind)) ||
+      (denied && denied.includes(statement.kind)),
+  );
+  if (!violation) {
+    return null;
+  }
+  return `${violation.keyword} on line ${violation.line} is a ${violation.kind} statement, which is not allowed`;
+}
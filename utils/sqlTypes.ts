@@ -0,0 +1,104 @@
+import * as sql from "mssql";
+
+type TypeShape = "none" | "length" | "scale" | "precisionScale";
+
+interface TypeDefinition {
+  factory: any;
+  shape: TypeShape;
+}
+
+const typeDefinitions: Record<string, TypeDefinition> = {
+  bit: { factory: sql.Bit, shape: "none" },
+  tinyint: { factory: sql.TinyInt, shape: "none" },
+  smallint: { factory: sql.SmallInt, shape: "none" },
+  int: { factory: sql.Int, shape: "none" },
+  bigint: { factory: sql.BigInt, shape: "none" },
+  float: { factory: sql.Float, shape: "none" },
+  real: { factory: sql.Real, shape: "none" },
+  decimal: { factory: sql.Decimal, shape: "precisionScale" },
+  numeric: { factory: sql.Numeric, shape: "precisionScale" },
+  money: { factory: sql.Money, shape: "none" },
+  smallmoney: { factory: sql.SmallMoney, shape: "none" },
+  char: { factory: sql.Char, shape: "length" },
+  varchar: { factory: sql.VarChar, shape: "length" },
+  nchar: { factory: sql.NChar, shape: "length" },
+  nvarchar: { factory: sql.NVarChar, shape: "length" },
+  text: { factory: sql.Text, shape: "none" },
+  ntext: { factory: sql.NText, shape: "none" },
+  binary: { factory: sql.Binary, shape: "length" },
+  varbinary: { factory: sql.VarBinary, shape: "length" },
+  image: { factory: sql.Image, shape: "none" },
+  date: { factory: sql.Date, shape: "none" },
+  time: { factory: sql.Time, shape: "scale" },
+  datetime: { factory: sql.DateTime, shape: "none" },
+  datetime2: { factory: sql.DateTime2, shape: "scale" },
+  datetimeoffset: { factory: sql.DateTimeOffset, shape: "scale" },
+  smalldatetime: { factory: sql.SmallDateTime, shape: "none" },
+  uniqueidentifier: { factory: sql.UniqueIdentifier, shape: "none" },
+  xml: { factory: sql.Xml, shape: "none" },
+  sql_variant: { factory: sql.Variant, shape: "none" },
+};
+
+/**
+ * Lists the type names accepted by parseSqlType
+ */
+export const supportedSqlTypes = Object.keys(typeDefinitions);
+
+/**
+ * Parses a SQL Server type declaration such as "varchar(50)", "decimal(18,4)",
+ * "nvarchar(max)" or "datetime2" into the matching mssql type.
+ */
+export function parseSqlType(declaration: string): sql.ISqlType {
+  const match =
+    /^\s*([a-z_0-9]+)\s*(?:\(\s*(max|\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*$/i.exec(
+      declaration,
+    );
+  if (!match) {
+    throw new Error(`Invalid SQL type declaration: "${declaration}"`);
+  }
+
+  const typeName = match[1].toLowerCase();
+  const definition = typeDefinitions[typeName];
+  if (!definition) {
+    throw new Error(
+      `Unknown SQL type "${match[1]}". Supported types: ${supportedSqlTypes.join(", ")}`,
+    );
+  }
+
+  const [first, second] = [match[2], match[3]];
+  const isMax = first?.toLowerCase() === "max";
+
+  switch (definition.shape) {
+    case "none":
+      if (first !== undefined) {
+        throw new Error(`SQL type "${typeName}" does not accept a size`);
+      }
+      return definition.factory();
+
+    case "length":
+      if (second !== undefined) {
+        throw new Error(`SQL type "${typeName}" accepts only a length`);
+      }
+      if (first === undefined) {
+        return definition.factory();
+      }
+      return definition.factory(isMax ? sql.MAX : Number(first));
+
+    case "scale":
+      if (isMax || second !== undefined) {
+        throw new Error(`SQL type "${typeName}" accepts only a scale`);
+      }
+      return first === undefined
+        ? definition.factory()
+        : definition.factory(Number(first));
+
+    case "precisionScale":
+      if (isMax) {
+        throw new Error(`SQL type "${typeName}" does not accept MAX`);
+      }
+      return definition.factory(
+        first === undefined ? undefined : Number(first),
+        second === undefined ? undefined : Number(second),
+      );
+  }
+}
@@ -0,0 +1,181 @@
+import * as sql from "mssql";
+
+export interface StreamOptions {
+  // Receives the column metadata of each result set before its rows
+  onRecordset?: (columns: sql.IColumnMetadata) => void;
+  // Rows buffered before the request is paused until the consumer catches up
+  highWaterMark?: number;
+}
+
+/**
+ * Runs a query in streaming mode and yields rows one at a time as the server
+ * sends them. When the consumer falls behind, the request is paused once
+ * highWaterMark rows are queued and resumed when half of them are consumed.
+ * If the consumer stops early, the request is cancelled.
+ */
+export async function* streamRows(
+  request: sql.Request,
+  query: string,
+  options: StreamOptions = {},
+): AsyncGenerator<any> {
+  request.stream = true;
+
+  const highWaterMark = Math.max(1, options.highWaterMark ?? 500);
+  let resolver: ((value: IteratorResult<any>) => void) | null = null;
+  let rejecter: ((error: Error) => void) | null = null;
+  const rowQueue: any[] = [];
+  let done = false;
+  let paused = false;
+  let cancelled = false;
+  let error: Error | null = null;
+
+  const takeRow = () => {
+    const row = rowQueue.shift();
+    if (paused && rowQueue.length <= highWaterMark / 2) {
+      paused = false;
+      request.resume();
+    }
+    return row;
+  };
+
+  if (options.onRecordset) {
+    request.on("recordset", options.onRecordset);
+  }
+
+  request.on("row", (row: any) => {
+    if (resolver) {
+      resolver({ value: row, done: false });
+      resolver = null;
+    } else {
+      rowQueue.push(row);
+      if (!paused && rowQueue.length >= highWaterMark) {
+        paused = true;
+        request.pause();
+      }
+    }
+  });
+
+  request.on("error", (err: any) => {
+    // Cancelling because the consumer stopped is not a failure
+    if (cancelled && err.code === "ECANCEL") return;
+    error = err;
+    if (rejecter) {
+      rejecter(err);
+      rejecter = null;
+    }
+  });
+
+  request.on("done", () => {
+    done = true;
+    if (resolver) {
+      resolver({ value: undefined, done: true });
+      resolver = null;
+    }
+  });
+
+  request.query(query);
+
+  try {
+    while (true) {
+      if (error) throw error;
+
+      if (rowQueue.length > 0) {
+        yield takeRow();
+      } else if (done) {
+        return;
+      } else {
+        yield await new Promise<any>((resolve, reject) => {
+          resolver = (result) => {
+            if (result.done) {
+              resolve(undefined);
+            } else {
+              resolve(result.value);
+            }
+          };
+          rejecter = reject;
+
+          // Check again in case events fired while setting up
+          if (error) {
+            reject(error);
+          } else if (rowQueue.length > 0) {
+            resolve(takeRow());
+            resolver = null;
+          } else if (done) {
+            resolve(undefined);
+            resolver = null;
+          }
+        });
+
+        // Check if we got the "done" signal
+        if (done && rowQueue.length === 0) {
+          return;
+        }
+      }
+    }
+  } finally {
+    if (!done && !error) {
+      cancelled = true;
+      request.cancel();
+    }
+  }
+}
+
+export interface LimitedQueryResult {
+  recordsets: any[][];
+  columns: sql.IColumnMetadata[];
+  rowsAffected: number[];
+  truncated: boolean;
+}
+
+/**
+ * Runs a query in streaming mode and keeps at most maxRows rows across all
+ * result sets. Once the limit is passed the request is cancelled, so the
+ * server stops sending rows instead of buffering the whole result.
+ */
+export function queryWithRowLimit(
+  request: sql.Request,
+  query: string,
+  maxRows: number,
+): Promise<LimitedQueryResult> {
+  request.stream = true;
+
+  const recordsets: any[][] = [];
+  const columns: sql.IColumnMetadata[] = [];
+  const rowsAffected: number[] = [];
+  let rowCount = 0;
+  let truncated = false;
+
+  return new Promise((resolve, reject) => {
+    request.on("recordset", (recordsetColumns: sql.IColumnMetadata) => {
+      recordsets.push([]);
+      columns.push(recordsetColumns);
+    });
+
+    request.on("row", (row: any) => {
+      if (truncated) return;
+      if (rowCount >= maxRows) {
+        truncated = true;
+        request.cancel();
+        return;
+      }
+      recordsets[recordsets.length - 1].push(row);
+      rowCount++;
+    });
+
+    request.on("rowsaffected", (count: number) => {
+      rowsAffected.push(count);
+    });
+
+    request.on("error", (err: any) => {
+      // Cancelling after the limit is not a failure
+      if (truncated && err.code === "ECANCEL") return;
+      reject(err);
+    });
+
+    request.on("done", () => {
+      resolve({ recordsets, columns, rowsAffected, truncated });
+    });
+
+    request.query(query);
+  });
+}